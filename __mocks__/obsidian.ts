@@ -0,0 +1,106 @@
+/**
+ * Obsidian ships its API with the app, not on npm, so tests run against
+ * this stand-in. requestUrl goes over the network for real, debounce,
+ * normalizePath and getAllTags behave like Obsidian's, files are plain
+ * objects, and the UI classes only exist so the modules that use them can
+ * be imported.
+ */
+import type {
+	CachedMetadata,
+	Debouncer,
+	RequestUrlParam,
+	RequestUrlResponse,
+} from "obsidian";
+
+export async function requestUrl(
+	request: RequestUrlParam
+): Promise<RequestUrlResponse> {
+	const response = await fetch(request.url, {
+		method: request.method,
+		headers: {
+			...(request.contentType
+				? { "Content-Type": request.contentType }
+				: {}),
+			...request.headers,
+		},
+		body: request.body as string | undefined,
+	});
+	const arrayBuffer = await response.arrayBuffer();
+	const text = new TextDecoder().decode(arrayBuffer);
+	if (request.throw !== false && response.status >= 400) {
+		throw new Error(`Request failed, status ${response.status}`);
+	}
+
+	const headers: Record<string, string> = {};
+	response.headers.forEach((value, name) => (headers[name] = value));
+	return {
+		status: response.status,
+		headers,
+		arrayBuffer,
+		text,
+		get json() {
+			return JSON.parse(text);
+		},
+	};
+}
+
+export function normalizePath(path: string): string {
+	return path.replace(/\/+/g, "/").replace(/^\/|\/$/g, "");
+}
+
+export function debounce<T extends unknown[], V>(
+	callback: (...args: [...T]) => V,
+	timeout = 0,
+	resetTimer = false
+): Debouncer<T, V> {
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	let args: [...T] | null = null;
+	const run = () => {
+		timer = null;
+		const pending = args;
+		args = null;
+		return pending ? callback(...pending) : undefined;
+	};
+	const debounced = (...next: [...T]) => {
+		args = next;
+		if (timer && resetTimer) clearTimeout(timer);
+		if (!timer || resetTimer) timer = setTimeout(run, timeout);
+		return debounced;
+	};
+	debounced.cancel = () => {
+		if (timer) clearTimeout(timer);
+		timer = null;
+		args = null;
+		return debounced;
+	};
+	debounced.run = run;
+	return debounced as Debouncer<T, V>;
+}
+
+export function getAllTags(cache: CachedMetadata): string[] | null {
+	const tags = (cache.tags ?? []).map((tag) => tag.tag);
+	const frontmatter: unknown = cache.frontmatter?.tags;
+	if (Array.isArray(frontmatter)) {
+		frontmatter.forEach((tag) => tags.push(`#${tag}`));
+	}
+	return tags;
+}
+
+export class TAbstractFile {
+	path = "";
+	name = "";
+	parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
+	basename = "";
+	extension = "";
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+}
+
+export class Notice {}
+
+export class Setting {}
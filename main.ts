@@ -1,85 +1,302 @@
+import { EditorView } from "@codemirror/view";
 import {
 	App,
 	Editor,
+	Events,
+	HeadingCache,
 	MarkdownView,
+	Menu,
 	Modal,
 	Notice,
 	Plugin,
 	PluginSettingTab,
+	setIcon,
 	Setting,
+	TFile,
+	TFolder,
+	WorkspaceLeaf,
 } from "obsidian";
+import {
+	estimateWordTimings,
+	findWordAt,
+	offsetTimings,
+	timeAtOffset,
+	WordTiming,
+} from "./src/alignment";
+import { AudioCache, AudioCacheKey } from "./src/audio-cache";
+import { joinClips } from "./src/audio-join";
+import { BookmarkNameModal, BookmarkSuggestModal } from "./src/bookmark-modals";
+import { ConfirmModal } from "./src/confirm-modal";
+import {
+	getEditorView,
+	HighlightKind,
+	HighlightRange,
+	readingHighlightExtension,
+	setEditorHighlights,
+	userActivityListener,
+} from "./src/editor-highlight";
+import {
+	detectLanguage,
+	findLanguageVoice,
+	sameLanguage,
+} from "./src/language";
+import {
+	compileLexicon,
+	parseLexiconNote,
+	Pronunciation,
+	respell,
+	toSsml,
+} from "./src/lexicon";
+import { Bookmark, ListeningStore } from "./src/listening-store";
+import {
+	PLAYER_VIEW_TYPE,
+	PlayerHost,
+	PlayerState,
+	PlayerView,
+} from "./src/player-view";
+import {
+	NO_OVERRIDES,
+	NoteOverrides,
+	readNoteOverrides,
+} from "./src/note-overrides";
+import { PrefetchQueue } from "./src/prefetch";
+import {
+	formatPlaylist,
+	getBacklinkNotes,
+	getFolderNotes,
+	getPlaylistNotes,
+	getTaggedNotes,
+	getVaultTags,
+	ReadingQueue,
+} from "./src/queue";
+import { SecretStore } from "./src/secrets";
+import { SectionSuggestModal } from "./src/section-suggest-modal";
+import { TagSuggestModal } from "./src/tag-suggest-modal";
+import { formatCost, Usage, UsageLedger } from "./src/usage-ledger";
+import {
+	groupSentences,
+	Sentence,
+	sentenceAt,
+	splitSentences,
+} from "./src/sentences";
+import {
+	prepareSpeech,
+	sectionAt,
+	selectSourceRange,
+	skipSections,
+	SpeechChunk,
+	toSourceRange,
+} from "./src/preprocess";
+import {
+	getBlockLines,
+	ReadingHighlighter,
+	ReadingRange,
+	tagSourceLines,
+} from "./src/reading-highlight";
+import { ElevenLabsProvider } from "./src/providers/elevenlabs";
+import { OpenAIProvider } from "./src/providers/openai";
+import { OpenAICompatibleProvider } from "./src/providers/openai-compatible";
+import { PiperProvider } from "./src/providers/piper";
+import {
+	describeError,
+	isAbortError,
+	SynthesisError,
+} from "./src/providers/errors";
+import { ProviderRegistry } from "./src/providers/registry";
+import { SystemProvider } from "./src/providers/system";
+import {
+	AudioFormat,
+	AudioProvider,
+	SynthesisRequest,
+	TimedAudio,
+	TTSProvider,
+	UtteranceProvider,
+} from "./src/providers/types";
+import {
+	DEFAULT_SETTINGS,
+	LanguageVoice,
+	TextToSpeechSettings,
+} from "./src/settings";
 
 // Remember to rename these classes and interfaces!
 
-interface TextToSpeechSettings {
-	voiceService: "system" | "elevenlabs" | "openai";
-	playbackVoice: string;
-	playbackSpeed: number;
-	pitch: number;
-	volume: number;
-	highlightEnabled: boolean;
-	highlightWord: boolean;
-	wordColor: string;
-	elevenLabsApiKey: string;
-	openAIApiKey: string;
-	highlightStyle: "background" | "underline";
-	highlightAnimation: boolean;
+/** Part of a chunk's spoken text that is highlighted */
+interface SpokenRange {
+	paragraphIndex: number;
+	/** Spoken text offsets; the whole chunk when unset */
+	start?: number;
+	length?: number;
+	css?: string;
 }
 
-const DEFAULT_SETTINGS: TextToSpeechSettings = {
-	voiceService: "system",
-	playbackVoice: "default",
-	playbackSpeed: 1.0,
-	pitch: 1.0,
-	volume: 1.0,
-	highlightEnabled: false,
-	highlightWord: false,
-	wordColor: "#1f26ea",
-	elevenLabsApiKey: "",
-	openAIApiKey: "",
-	highlightStyle: "underline",
-	highlightAnimation: true,
+/** File extensions Obsidian recognizes for each export format */
+const EXPORT_EXTENSIONS: Record<AudioFormat, string> = {
+	mp3: "mp3",
+	wav: "wav",
+	opus: "ogg",
 };
 
-interface EditorField {
-	provides?: {
-		is?: {
-			decorations?: boolean;
-		};
-	};
+/** A paragraph, or a group of its sentences, synthesized in one request */
+interface AudioSegment {
+	paragraph: number;
+	/** Spoken offset of the segment's text in its paragraph */
+	start: number;
+	provider: AudioProvider;
+	request: SynthesisRequest;
+	/** Seconds, once the segment's clip has started playing */
+	duration?: number;
 }
 
-interface EditorHighlight {
-	from: any; // Position
-	to: any; // Position
-	css: string;
+/** A synthesized segment, loaded into an audio element ready to play */
+interface AudioClip {
+	audio: HTMLAudioElement;
+	url: string;
+	/**
+	 * From the provider, with offsets in the whole paragraph; estimated
+	 * from the clip's duration when missing
+	 */
+	timings?: WordTiming[];
 }
 
-interface ExtendedEditor extends Editor {
-	addHighlight(highlight: EditorHighlight): any;
-	removeHighlight(highlight: any): void;
-}
+/**
+ * Paragraphs longer than this are synthesized and played as groups of
+ * sentences, so reading starts before the whole paragraph is ready.
+ * Services also have a hard limit of their own, see getMaxInputLength.
+ */
+const SENTENCE_GROUP_LENGTH = 1000;
+
+/** Characters read per second at normal speed, until clips tell better */
+const DEFAULT_READING_RATE = 14;
 
-export default class TextToSpeechPlugin extends Plugin {
+export default class TextToSpeechPlugin extends Plugin implements PlayerHost {
 	settings: TextToSpeechSettings;
 	private speaking: boolean = false;
 	private speechSynthesis: SpeechSynthesis = window.speechSynthesis;
-	private currentParagraphEl: any = null;
-	private currentWordEl: any = null;
-	private currentSentenceEl: any = null;
+	private highlights: Partial<Record<HighlightKind, SpokenRange>> = {};
+	// The editor the highlights are drawn in, to clear them from there
+	private highlightedView: EditorView | null = null;
+	// Set when the user scrolls or moves the cursor in the note being
+	// read, until playback is started or moved again
+	private followPaused = false;
+	private readingHighlighter = new ReadingHighlighter();
+	// The note text the chunks were prepared from
+	private sourceText = "";
 	private statusBarEl: HTMLElement | null = null;
-	private defaultVoice: SpeechSynthesisVoice | null = null;
+	private statusButtons: Record<
+		"back" | "play" | "forward",
+		HTMLElement
+	> | null = null;
+	// Tells the player panel to redraw
+	readonly playerEvents = new Events();
 	private currentParagraphIndex: number = 0;
 	private paragraphs: string[] = [];
+	// Sentences of each paragraph, split when first needed
+	private sentences: Sentence[][] = [];
+	// Seconds each synthesized paragraph takes, for the player's progress
+	private paragraphDurations: number[] = [];
+	private chunks: SpeechChunk[] = [];
 	private currentAudio: HTMLAudioElement | null = null;
 	private isLoading: boolean = false;
 	private wordHighlightInterval: number | null = null;
+	// Word timings reported for the clip in currentAudio, if any
+	private currentTimings: WordTiming[] | undefined;
+	// Path of the note being read, so clicks in other notes are ignored
+	private readingPath: string | null = null;
+	// False when only part of the note is read, e.g. a selection
+	private readingToEnd = false;
+	// Last word boundary reported by the system voice
+	private utteranceOffset = 0;
+	listening: ListeningStore;
+	usage: UsageLedger;
+	readonly queue = new ReadingQueue();
+	private activeProvider: TTSProvider | null = null;
+	// Services that failed during this reading, not to be tried again
+	private failedProviders = new Set<string>();
+	// Frontmatter settings of the note being read
+	private overrides: NoteOverrides = NO_OVERRIDES;
+	// Language of each paragraph, where known
+	private languages: Array<string | undefined> = [];
+	// The lexicon from settings and the lexicon note, ready to apply
+	private pronunciations: Pronunciation[] = [];
+	private prefetcher: PrefetchQueue<AudioClip> | null = null;
+	// What the prefetcher synthesizes, in reading order
+	private segments: AudioSegment[] = [];
+	// The segment whose clip is in currentAudio
+	private currentSegment: AudioSegment | null = null;
+	// Bumped whenever playback stops or jumps, so stale callbacks can tell
+	private playbackSession = 0;
+	readonly providers = new ProviderRegistry();
+	audioCache: AudioCache;
+	secrets: SecretStore;
 
 	async onload() {
+		this.secrets = new SecretStore(
+			`${this.manifest.id}:${this.app.vault.getName()}:`,
+			() => this.settings.apiKeys
+		);
 		await this.loadSettings();
 
-		// Initialize speech synthesis and set default voice
-		this.initializeSpeechSynthesis();
+		// Register the built-in voice services
+		this.providers.register(new SystemProvider(this));
+		this.providers.register(new ElevenLabsProvider(this));
+		this.providers.register(new OpenAIProvider(this));
+		this.providers.register(new OpenAICompatibleProvider(this));
+		this.providers.register(new PiperProvider(this));
+
+		// Draws the paragraph and word being read in the editor
+		this.registerEditorExtension([
+			readingHighlightExtension,
+			userActivityListener((view) => {
+				if (view === this.highlightedView) this.followPaused = true;
+			}),
+		]);
+		// ... and in Reading view, which needs to know where blocks came from
+		this.registerMarkdownPostProcessor(tagSourceLines);
+
+		// Synthesized clips are kept in the plugin folder for replays
+		const pluginDir =
+			this.manifest.dir ??
+			`${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.audioCache = new AudioCache(
+			this.app.vault.adapter,
+			`${pluginDir}/audio-cache`,
+			() => this.settings.audioCacheLimitMb * 1024 * 1024
+		);
+		this.listening = new ListeningStore(
+			this.app.vault.adapter,
+			`${pluginDir}/listening.json`
+		);
+		this.usage = new UsageLedger(
+			this.app.vault.adapter,
+			`${pluginDir}/usage.json`
+		);
+
+		// Resume positions and bookmarks follow their note around
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.listening.rename(oldPath, file.path);
+				this.queue.rename(oldPath, file.path);
+				if (this.readingPath === oldPath) this.readingPath = file.path;
+			})
+		);
+		this.app.workspace.onLayoutReady(() => {
+			for (const provider of this.providers.list()) {
+				if (provider.kind === "audio") provider.prepare?.();
+			}
+		});
+		// Pick up edits to the lexicon note
+		this.app.workspace.onLayoutReady(() => this.loadPronunciations());
+		this.registerEvent(
+			this.app.vault.on("modify", (file) => {
+				if (file === this.getLexiconNote()) this.loadPronunciations();
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				this.listening.delete(file.path);
+				this.queue.remove(file.path);
+			})
+		);
 
 		// Add the icon to the page header menu (next to edit/read toggle)
 		const ribbonIconEl = this.addRibbonIcon(
@@ -94,9 +311,11 @@ export default class TextToSpeechPlugin extends Plugin {
 
 				const activeView =
 					this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (activeView) {
-					const content = activeView.getViewData();
-					await this.speakText(content);
+				if (activeView && this.speaking) {
+					// Stops reading
+					await this.speakText(activeView.getViewData());
+				} else if (activeView) {
+					await this.playNote(activeView, evt);
 				} else {
 					new Notice("No active document to read");
 				}
@@ -151,63 +370,412 @@ export default class TextToSpeechPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "next-sentence",
+			name: "Skip to next sentence",
+			checkCallback: (checking: boolean) => {
+				if (!this.speaking) return false;
+				if (!checking) this.skipToSentence("next");
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "previous-sentence",
+			name: "Return to previous sentence",
+			checkCallback: (checking: boolean) => {
+				if (!this.speaking) return false;
+				if (!checking) this.skipToSentence("previous");
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "next-heading",
+			name: "Skip to next section",
+			checkCallback: (checking: boolean) => {
+				if (!this.speaking) return false;
+				if (!checking) this.skipToHeading("next");
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "previous-heading",
+			name: "Return to previous section",
+			checkCallback: (checking: boolean) => {
+				if (!this.speaking) return false;
+				if (!checking) this.skipToHeading("previous");
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "jump-to-section",
+			name: "Jump to section",
+			checkCallback: (checking: boolean) => {
+				const file = this.getSectionNote();
+				if (!file) return false;
+				if (!checking) this.chooseSection(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "read-selection",
+			name: "Read selection",
+			editorCheckCallback: (checking, editor, view) => {
+				if (!editor.somethingSelected()) return false;
+				if (!checking && view instanceof MarkdownView) {
+					this.readSelection(editor, view);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "read-from-cursor",
+			name: "Read from cursor",
+			editorCallback: (editor, view) => {
+				if (view instanceof MarkdownView) {
+					this.readFromCursor(editor, view);
+				}
+			},
+		});
+
+		this.addCommand({
+			id: "read-section",
+			name: "Read this section",
+			editorCallback: (editor, view) => {
+				if (view instanceof MarkdownView) {
+					this.readSection(editor, view);
+				}
+			},
+		});
+
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, editor, view) => {
+				if (!(view instanceof MarkdownView)) return;
+
+				if (editor.somethingSelected()) {
+					menu.addItem((item) =>
+						item
+							.setTitle("Read selection")
+							.setIcon("audio-file")
+							.onClick(() => this.readSelection(editor, view))
+					);
+				}
+				menu.addItem((item) =>
+					item
+						.setTitle("Read from cursor")
+						.setIcon("audio-file")
+						.onClick(() => this.readFromCursor(editor, view))
+				);
+				menu.addItem((item) =>
+					item
+						.setTitle("Read this section")
+						.setIcon("audio-file")
+						.onClick(() => this.readSection(editor, view))
+				);
+			})
+		);
+
+		this.addCommand({
+			id: "resume-reading",
+			name: "Resume reading from where you left off",
+			checkCallback: (checking: boolean) => {
+				const view =
+					this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view) return false;
+				if (!checking) this.resumeReading(view);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "add-bookmark",
+			name: "Bookmark the current reading position",
+			checkCallback: (checking: boolean) => {
+				if (!this.speaking) return false;
+				if (!checking) this.addBookmark();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "go-to-bookmark",
+			name: "Go to listening bookmark",
+			checkCallback: (checking: boolean) => {
+				const view =
+					this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view) return false;
+				if (!checking) {
+					this.chooseBookmark(view, (bookmark) =>
+						this.jumpToBookmark(view, bookmark)
+					);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "remove-bookmark",
+			name: "Remove listening bookmark",
+			checkCallback: (checking: boolean) => {
+				const view =
+					this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view?.file) return false;
+				if (!checking) {
+					const path = view.file.path;
+					this.chooseBookmark(view, async (bookmark) => {
+						await this.listening.removeBookmark(path, bookmark);
+						new Notice(`Removed bookmark "${bookmark.name}"`);
+					});
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "read-folder",
+			name: "Read all notes in this folder",
+			checkCallback: (checking: boolean) => {
+				const folder = this.app.workspace.getActiveFile()?.parent;
+				if (!folder) return false;
+				if (!checking) {
+					this.startQueue(
+						getFolderNotes(folder),
+						folder.isRoot() ? "the vault" : folder.name
+					);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "read-tag",
+			name: "Read all notes with a tag",
+			callback: () => {
+				new TagSuggestModal(this.app, getVaultTags(this.app), (tag) =>
+					this.startQueue(getTaggedNotes(this.app, tag), tag)
+				).open();
+			},
+		});
+
+		this.addCommand({
+			id: "read-backlinks",
+			name: "Read all notes linking to this note",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) {
+					this.startQueue(
+						getBacklinkNotes(this.app, file),
+						`backlinks of ${file.basename}`
+					);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "queue-note",
+			name: "Add this note to the reading queue",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") return false;
+				if (!checking) this.addToQueue([file]);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "play-queue",
+			name: "Play the reading queue",
+			checkCallback: (checking: boolean) => {
+				if (this.queue.length === 0) return false;
+				if (!checking)
+					this.playQueueItem(Math.max(this.queue.index, 0));
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "next-note",
+			name: "Skip to next note in queue",
+			checkCallback: (checking: boolean) => {
+				if (this.queue.length === 0) return false;
+				if (!checking) this.skipNote("next");
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "previous-note",
+			name: "Return to previous note in queue",
+			checkCallback: (checking: boolean) => {
+				if (this.queue.length === 0) return false;
+				if (!checking) this.skipNote("previous");
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "clear-queue",
+			name: "Clear the reading queue",
+			checkCallback: (checking: boolean) => {
+				if (this.queue.length === 0) return false;
+				if (!checking) {
+					this.queue.clear();
+					new Notice("Reading queue cleared");
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "save-queue",
+			name: "Save the reading queue as a playlist note",
+			checkCallback: (checking: boolean) => {
+				if (this.queue.length === 0) return false;
+				if (!checking) this.saveQueueAsPlaylist();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "play-playlist",
+			name: "Play the notes linked from this note",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) {
+					this.startQueue(
+						getPlaylistNotes(this.app, file),
+						file.basename
+					);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "export-note-audio",
+			name: "Export note as audio",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") return false;
+				if (!checking) this.exportNoteAudio(file);
+				return true;
+			},
+		});
+
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				if (file instanceof TFolder) {
+					menu.addItem((item) =>
+						item
+							.setTitle("Read all notes in folder")
+							.setIcon("audio-file")
+							.onClick(() =>
+								this.startQueue(
+									getFolderNotes(file),
+									file.isRoot() ? "the vault" : file.name
+								)
+							)
+					);
+					return;
+				}
+				if (!(file instanceof TFile) || file.extension !== "md") {
+					return;
+				}
+				menu.addItem((item) =>
+					item
+						.setTitle("Add to reading queue")
+						.setIcon("list-plus")
+						.onClick(() => this.addToQueue([file]))
+				);
+				menu.addItem((item) =>
+					item
+						.setTitle("Export as audio")
+						.setIcon("file-audio")
+						.onClick(() => this.exportNoteAudio(file))
+				);
+			})
+		);
+
+		// Sidebar player with a transcript that follows the reading
+		this.registerView(
+			PLAYER_VIEW_TYPE,
+			(leaf) => new PlayerView(leaf, this)
+		);
+
+		this.addCommand({
+			id: "open-player",
+			name: "Open player",
+			callback: () => this.openPlayer(),
+		});
+
+		// Modifier-click a word while playing to continue from there
+		this.registerDomEvent(
+			document,
+			"mousedown",
+			(evt) => this.handleSeekClick(evt),
+			{ capture: true }
+		);
+
+		// Scrolling the note being read stops it following the reading
+		const pauseFollowing = (evt: Event) => {
+			const view = this.getReadingView();
+			if (
+				this.speaking &&
+				view &&
+				evt.target instanceof Node &&
+				view.containerEl.contains(evt.target)
+			) {
+				this.followPaused = true;
+			}
+		};
+		this.registerDomEvent(document, "wheel", pauseFollowing, {
+			passive: true,
+		});
+		this.registerDomEvent(document, "touchmove", pauseFollowing, {
+			passive: true,
+		});
+
 		// Add status bar item
 		this.statusBarEl = this.addStatusBarItem();
 		this.statusBarEl.addClass("tts-status-bar-item");
+		this.createStatusBarControls(this.statusBarEl);
 		this.updateStatusBar("Click speaker icon to start reading");
 
 		// This adds a settings tab so the user can configure various aspects of the plugin
 		this.addSettingTab(new TextToSpeechSettingTab(this.app, this));
 	}
 
-	private updateStatusBar(text: string) {
-		if (!this.statusBarEl) return;
-
-		this.statusBarEl.empty();
+	/** The compact player in the status bar; the full one is a view */
+	private createStatusBarControls(el: HTMLElement) {
+		const addButton = (
+			icon: string,
+			tooltip: string,
+			onClick: (event: MouseEvent) => unknown
+		) => {
+			const button = el.createEl("span", {
+				cls: "tts-control-button",
+				attr: { "data-tooltip": tooltip },
+			});
+			setIcon(button, icon);
+			button.addEventListener("click", (event) => onClick(event));
+			return button;
+		};
 
-		// Back button
-		const backButton = this.statusBarEl.createEl("span", {
-			cls: "tts-control-button",
-			attr: {
-				"data-tooltip": "Previous ¶",
-			},
-		});
-		backButton.innerHTML = `<svg viewBox="0 0 24 24" width="16" height="16" stroke="currentColor" stroke-width="2" fill="none" stroke-linecap="round" stroke-linejoin="round"><line x1="19" y1="12" x2="5" y2="12"></line><polyline points="12 19 5 12 12 5"></polyline></svg>`;
-		backButton.addEventListener("click", () => {
+		const back = addButton("arrow-left", "Previous ¶", () => {
 			if (this.speaking && !this.isLoading) {
 				this.skipToParagraph("previous");
 			}
 		});
 
-		// Play/Pause/Loading button
-		const playPauseButton = this.statusBarEl.createEl("span", {
-			cls: "tts-control-button",
-			attr: {
-				"data-tooltip": this.isLoading
-					? "Loading..."
-					: this.speaking
-					? "Pause"
-					: "Play",
-			},
-		});
-
-		if (this.isLoading) {
-			playPauseButton.innerHTML = `<span class="tts-loading-dots"><span></span><span></span><span></span></span>`;
-			playPauseButton.style.cursor = "not-allowed";
-		} else {
-			const isPaused =
-				this.settings.voiceService === "system"
-					? this.speechSynthesis.paused
-					: this.currentAudio?.paused;
-
-			const isPlaying = this.speaking && !isPaused;
-
-			playPauseButton.innerHTML = !isPlaying
-				? `<svg viewBox="0 0 24 24" width="16" height="16" stroke="currentColor" stroke-width="2" fill="none" stroke-linecap="round" stroke-linejoin="round"><polygon points="5 3 19 12 5 21 5 3"></polygon></svg>`
-				: `<svg viewBox="0 0 24 24" width="16" height="16" stroke="currentColor" stroke-width="2" fill="none" stroke-linecap="round" stroke-linejoin="round"><rect x="6" y="4" width="4" height="16"></rect><rect x="14" y="4" width="4" height="16"></rect></svg>`;
-		}
-
-		playPauseButton.addEventListener("click", async (event) => {
+		const play = addButton("play", "Play", async (event) => {
 			if (this.isLoading) {
 				new Notice("Please wait, audio is being generated...");
 				return;
@@ -224,190 +792,786 @@ export default class TextToSpeechPlugin extends Plugin {
 			const isModifierKeyPressed = event.metaKey || event.ctrlKey;
 
 			if (this.speaking && !isModifierKeyPressed) {
-				// Normal click - handle pause/resume for all services
-				if (this.settings.voiceService === "system") {
-					if (this.speechSynthesis.paused) {
-						this.speechSynthesis.resume();
-					} else {
-						this.speechSynthesis.pause();
-					}
-				} else if (this.currentAudio) {
-					if (this.currentAudio.paused) {
-						await this.currentAudio.play();
-					} else {
-						this.currentAudio.pause();
-					}
-				}
-				// Update status bar immediately after state change
-				this.updateStatusBar("");
+				await this.togglePause();
 			} else {
 				// Either not speaking or modifier key is pressed - start new playback
 				if (this.speaking) {
-					// Stop current playback
-					if (this.settings.voiceService === "system") {
-						this.speechSynthesis.cancel();
-					} else if (this.currentAudio) {
-						this.currentAudio.pause();
-						this.currentAudio = null;
-					}
-					this.speaking = false;
-					this.clearHighlights();
+					this.stopPlayback();
+					await this.speakText(activeView.getViewData());
+				} else {
+					await this.playNote(activeView, event);
 				}
-				const content = activeView.getViewData();
-				await this.speakText(content);
 			}
 		});
 
-		// Forward button
-		const forwardButton = this.statusBarEl.createEl("span", {
-			cls: "tts-control-button",
-			attr: {
-				"data-tooltip": "Next ¶",
-			},
-		});
-		forwardButton.innerHTML = `<svg viewBox="0 0 24 24" width="16" height="16" stroke="currentColor" stroke-width="2" fill="none" stroke-linecap="round" stroke-linejoin="round"><line x1="5" y1="12" x2="19" y2="12"></line><polyline points="12 5 19 12 12 19"></polyline></svg>`;
-		forwardButton.addEventListener("click", () => {
+		const forward = addButton("arrow-right", "Next ¶", () => {
 			if (this.speaking && !this.isLoading) {
 				this.skipToParagraph("next");
 			}
 		});
 
-		// Disable navigation buttons during loading
-		if (this.isLoading) {
-			backButton.style.cursor = "not-allowed";
-			backButton.style.opacity = "0.5";
-			forwardButton.style.cursor = "not-allowed";
-			forwardButton.style.opacity = "0.5";
+		addButton("panel-right-open", "Open player", () => this.openPlayer());
+
+		this.statusButtons = { back, play, forward };
+	}
+
+	private updateStatusBar(text: string) {
+		this.playerEvents.trigger("change");
+		if (!this.statusButtons) return;
+
+		const { back, play, forward } = this.statusButtons;
+		const isPlaying = this.speaking && !this.isPlaybackPaused();
+		const state = this.isLoading
+			? "Loading..."
+			: isPlaying
+			? "Pause"
+			: "Play";
+
+		// Only redraw the icon when it changes, so hovering keeps working
+		if (play.getAttribute("data-tooltip") !== state) {
+			play.setAttribute("data-tooltip", state);
+			play.empty();
+			if (this.isLoading) {
+				const dots = play.createSpan({ cls: "tts-loading-dots" });
+				dots.createSpan();
+				dots.createSpan();
+				dots.createSpan();
+			} else {
+				setIcon(play, isPlaying ? "pause" : "play");
+			}
 		}
+
+		// Disable the controls during loading
+		play.toggleClass("is-disabled", this.isLoading);
+		back.toggleClass("is-disabled", this.isLoading);
+		forward.toggleClass("is-disabled", this.isLoading);
 	}
 
-	async speakText(text: string) {
-		// If already loading, prevent new request
-		if (this.isLoading) {
-			new Notice("Please wait, audio is being generated...");
-			return;
+	/** Shows the player view in the right sidebar */
+	async openPlayer() {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null =
+			workspace.getLeavesOfType(PLAYER_VIEW_TYPE)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			await leaf?.setViewState({ type: PLAYER_VIEW_TYPE, active: true });
 		}
+		if (leaf) await workspace.revealLeaf(leaf);
+	}
 
-		if (this.speaking) {
-			// Stop any active speech or audio
-			if (this.settings.voiceService === "system") {
-				this.speechSynthesis.cancel();
-			} else if (this.currentAudio) {
+	/** Pauses or resumes whatever is being read */
+	async togglePause() {
+		if (!this.speaking || this.isLoading) return;
+
+		if (this.activeProvider?.kind === "utterance") {
+			if (this.speechSynthesis.paused) {
+				this.speechSynthesis.resume();
+			} else {
+				this.speechSynthesis.pause();
+			}
+		} else if (this.currentAudio) {
+			if (this.currentAudio.paused) {
+				await this.currentAudio.play();
+			} else {
 				this.currentAudio.pause();
-				this.currentAudio = null;
 			}
-			this.speaking = false;
-			this.isLoading = false;
-			this.clearHighlights();
-			this.updateStatusBar("");
-			return;
 		}
-
-		// Set loading state before starting
-		this.isLoading = true;
+		this.rememberPosition();
+		// Update status bar immediately after state change
 		this.updateStatusBar("");
+	}
 
-		try {
-			// Set speaking state immediately
-			this.speaking = true;
-
-			// Remove frontmatter and properties
-			let cleanText = text;
+	stopReading() {
+		if (!this.speaking) return;
+		this.stopPlayback();
+		this.isLoading = false;
+		this.updateStatusBar("");
+	}
 
-			// Remove YAML frontmatter
-			cleanText = cleanText.replace(/^---\n[\s\S]*?\n---\n/, "");
+	/** Starts the note open in the main area, e.g. from the player view */
+	async playActiveNote(evt: MouseEvent) {
+		const view = this.app.workspace.getMostRecentLeaf()?.view;
+		if (!(view instanceof MarkdownView)) {
+			new Notice("No active document to read");
+			return;
+		}
+		await this.playNote(view, evt);
+	}
 
-			// Remove Obsidian properties (lines starting with property:)
-			cleanText = cleanText
-				.split("\n")
-				.filter((line) => !line.match(/^[a-zA-Z0-9-_]+::.*$/))
-				.join("\n");
+	getPlayerState(): PlayerState {
+		const file = this.readingPath
+			? this.app.vault.getAbstractFileByPath(this.readingPath)
+			: null;
+		const durations = this.paragraphs.map((_, index) =>
+			this.estimateParagraphDuration(index)
+		);
+		const current = durations[this.currentParagraphIndex] ?? 0;
+		let within = 0;
+		if (this.isLoading) {
+			// The clip for the current paragraph has not started yet
+		} else if (this.activeProvider?.kind === "utterance") {
+			const length = this.paragraphs[this.currentParagraphIndex]?.length;
+			within = length ? (this.utteranceOffset / length) * current : 0;
+		} else if (this.currentAudio) {
+			within = this.getSegmentStartTime() + this.currentAudio.currentTime;
+		}
 
-			// Remove any extra newlines at the start
-			cleanText = cleanText.replace(/^\n+/, "");
+		return {
+			title:
+				file instanceof TFile
+					? file.basename
+					: this.paragraphs.length > 0
+					? "Untitled note"
+					: null,
+			paragraphs: this.paragraphs,
+			paragraphIndex: this.currentParagraphIndex,
+			offset: this.getCurrentSpokenOffset(),
+			speaking: this.speaking,
+			paused: this.speaking && this.isPlaybackPaused(),
+			loading: this.isLoading,
+			elapsed:
+				durations
+					.slice(0, this.currentParagraphIndex)
+					.reduce((sum, duration) => sum + duration, 0) +
+				Math.min(within, current),
+			duration: durations.reduce((sum, duration) => sum + duration, 0),
+			speed: this.getPlaybackSpeed(),
+			languages: this.languages,
+		};
+	}
 
-			// Use the selected voice service
-			switch (this.settings.voiceService) {
-				case "system":
-					await this.speakWithSystem(cleanText);
-					break;
-				case "elevenlabs":
-					await this.speakWithElevenLabs(cleanText);
-					break;
-				case "openai":
-					await this.speakWithOpenAI(cleanText);
-					break;
-			}
+	/**
+	 * Seconds paragraph `index` takes to read: the clip's length once it
+	 * has played, otherwise estimated from the clips played so far.
+	 */
+	private estimateParagraphDuration(index: number): number {
+		const known = this.paragraphDurations[index];
+		if (known) return known;
+
+		let characters = 0;
+		let seconds = 0;
+		this.paragraphDurations.forEach((duration, i) => {
+			if (!duration) return;
+			characters += this.paragraphs[i]?.length ?? 0;
+			seconds += duration;
+		});
+		const rate =
+			characters > 0 && seconds > 0
+				? characters / seconds
+				: DEFAULT_READING_RATE * this.getPlaybackSpeed();
+		return (this.paragraphs[index]?.length ?? 0) / rate;
+	}
 
-			// Update status bar after starting
-			this.updateStatusBar("");
-		} catch (error) {
-			console.error("Error starting speech:", error);
-			new Notice("Error starting speech. Please try again.");
-			this.isLoading = false;
-			this.speaking = false;
-			this.updateStatusBar("");
+	/**
+	 * Seconds into its paragraph at which the clip playing starts, for
+	 * paragraphs read in several segments.
+	 */
+	private getSegmentStartTime(): number {
+		const segment = this.currentSegment;
+		if (!segment || segment.start === 0) return 0;
+
+		const text = this.paragraphs[segment.paragraph] ?? "";
+		const estimate = this.estimateParagraphDuration(segment.paragraph);
+		let time = 0;
+		for (const part of this.segments) {
+			if (part.paragraph !== segment.paragraph) continue;
+			if (part.start >= segment.start) break;
+			time +=
+				part.duration ??
+				(part.request.text.length / (text.length || 1)) * estimate;
 		}
+		return time;
 	}
 
-	private initializeSpeechSynthesis() {
-		// Load voices and set default
-		const loadVoices = () => {
-			const voices = this.speechSynthesis.getVoices();
+	/** Jumps to `seconds` into the reading, e.g. from the progress bar */
+	async seekToTime(seconds: number) {
+		if (!this.speaking || this.paragraphs.length === 0) return;
+		this.followPaused = false;
+
+		let index = 0;
+		let start = 0;
+		for (; index < this.paragraphs.length - 1; index++) {
+			const duration = this.estimateParagraphDuration(index);
+			if (start + duration > seconds) break;
+			start += duration;
+		}
+
+		const within = Math.max(seconds - start, 0);
+		const segmentStart = this.getSegmentStartTime();
+		if (
+			this.activeProvider?.kind === "audio" &&
+			index === this.currentParagraphIndex &&
+			this.currentAudio &&
+			within >= segmentStart &&
+			within - segmentStart < this.currentAudio.duration
+		) {
+			this.currentAudio.currentTime = within - segmentStart;
+			if (this.currentAudio.paused) await this.currentAudio.play();
+			return;
+		}
 
-			// Try to find the system default voice
-			this.defaultVoice = voices.find((voice) => voice.default) || null;
+		const word = findWordAt(
+			estimateWordTimings(
+				this.paragraphs[index],
+				this.estimateParagraphDuration(index)
+			),
+			within
+		);
+		await this.seekTo(index, word?.start ?? 0);
+	}
 
-			// If no default voice is found, try to find a suitable English voice
-			if (!this.defaultVoice) {
-				this.defaultVoice =
-					voices.find(
-						(voice) =>
-							voice.lang.startsWith("en-") ||
-							voice.name.toLowerCase().includes("samantha") ||
-							voice.name.toLowerCase().includes("alex")
-					) ||
-					voices[0] ||
-					null;
+	async setPlaybackSpeed(speed: number) {
+		// A speed picked while listening wins over the note's own
+		this.overrides = { ...this.overrides, speed: undefined };
+		this.settings.playbackSpeed = speed;
+		await this.saveSettings();
+
+		// Clips are played faster or slower rather than synthesized and
+		// paid for again; system voices have to start over
+		if (this.activeProvider?.kind === "audio") {
+			if (this.currentAudio && this.currentSegment) {
+				this.currentAudio.playbackRate = this.getPlaybackRate(
+					this.currentSegment
+				);
 			}
+		} else {
+			await this.restartAtCurrentWord();
+		}
+	}
 
-			if (this.defaultVoice) {
-				console.log("Selected default voice:", this.defaultVoice.name);
-			} else {
-				console.warn("No suitable voice found");
+	async setPlaybackVoice(voice: string) {
+		// The voice is one of the selected service's, so leave the note's
+		// service too
+		this.overrides = {
+			...this.overrides,
+			service: undefined,
+			voice: undefined,
+		};
+		this.settings.playbackVoice = voice;
+		if (this.activeProvider) this.activeProvider = this.getActiveProvider();
+		await this.saveSettings();
+		await this.restartAtCurrentWord();
+	}
+
+	/** The playback speed, unless the note being read sets its own */
+	getPlaybackSpeed(): number {
+		return this.overrides.speed ?? this.settings.playbackSpeed;
+	}
+
+	/**
+	 * Plays a clip synthesized at an earlier speed, or at the nearest one
+	 * the service takes, at the current one
+	 */
+	private getPlaybackRate(segment: AudioSegment): number {
+		return this.getPlaybackSpeed() / segment.request.speed;
+	}
+
+	/** `speed`, within the range `provider` synthesizes at */
+	private getSynthesisSpeed(provider: AudioProvider, speed: number): number {
+		if (!provider.speedRange) return speed;
+		const [slowest, fastest] = provider.speedRange;
+		return Math.min(Math.max(speed, slowest), fastest);
+	}
+
+	/**
+	 * Picks up new voice settings mid-read by synthesizing again from the
+	 * word being read. Clips fetched ahead used the old settings.
+	 */
+	private async restartAtCurrentWord() {
+		if (!this.speaking) return;
+
+		const paragraphIndex = this.currentParagraphIndex;
+		const offset = this.getCurrentSpokenOffset();
+		this.clearHighlights();
+		this.stopCurrentSpeech();
+		this.cancelPrefetch();
+		this.paragraphDurations = [];
+		await this.speakFrom(paragraphIndex, offset);
+	}
+
+	/**
+	 * Reads `text` aloud, or stops reading if already speaking. `select`
+	 * picks the part of the note to read, e.g. a selection, and `startAt`
+	 * the source offset to start from, e.g. a saved position. `path` is the
+	 * note's path when it is not the active note, and `announce` is read
+	 * out first.
+	 */
+	async speakText(
+		text: string,
+		options: {
+			select?: (chunks: SpeechChunk[]) => SpeechChunk[];
+			startAt?: number;
+			path?: string;
+			announce?: string;
+		} = {}
+	) {
+		// If already loading, prevent new request
+		if (this.isLoading) {
+			new Notice("Please wait, audio is being generated...");
+			return;
+		}
+
+		if (this.speaking) {
+			// Stop any active speech or audio
+			this.rememberPosition();
+			this.stopCurrentSpeech();
+			this.cancelPrefetch();
+			this.speaking = false;
+			this.isLoading = false;
+			this.clearHighlights();
+			this.updateStatusBar("");
+			return;
+		}
+
+		const path =
+			options.path ??
+			this.app.workspace.getActiveViewOfType(MarkdownView)?.file?.path ??
+			null;
+		let overrides = this.getNoteOverrides(path);
+		if (!overrides.enabled) {
+			new Notice("This note has tts: false in its frontmatter");
+			// Skip it when it comes up in the queue
+			this.readingPath = path;
+			this.advanceQueue();
+			return;
+		}
+		if (overrides.service && !this.findProvider(overrides.service)) {
+			new Notice(
+				`Unknown tts-service "${overrides.service}", using ${
+					this.getActiveProvider().name
+				}`
+			);
+		}
+
+		// Turn the Markdown into speakable chunks, keeping source offsets
+		const allChunks = respell(
+			skipSections(
+				prepareSpeech(text, this.settings),
+				overrides.skipSections
+			),
+			this.pronunciations
+		);
+		overrides = this.withNoteLanguage(
+			overrides,
+			allChunks.map((chunk) => chunk.text)
+		);
+
+		const provider = this.getProviderFor(overrides);
+		const configurationProblem = provider.checkConfiguration();
+		if (configurationProblem) {
+			new Notice(configurationProblem);
+			return;
+		}
+		this.overrides = overrides;
+		this.activeProvider = provider;
+		this.failedProviders.clear();
+		this.cancelPrefetch();
+
+		// Set loading state before starting
+		this.isLoading = true;
+		this.updateStatusBar("");
+
+		try {
+			// Set speaking state immediately
+			this.speaking = true;
+
+			this.sourceText = text;
+			this.readingPath = path;
+			this.chunks = options.select
+				? options.select(allChunks)
+				: allChunks;
+			// Only a read that ends with the note counts as finishing it
+			this.readingToEnd =
+				this.chunks[this.chunks.length - 1] ===
+				allChunks[allChunks.length - 1];
+			this.paragraphs = this.chunks.map((chunk) => chunk.text);
+			this.sentences = [];
+			this.paragraphDurations = [];
+			if (options.announce && this.chunks.length > 0) {
+				this.chunks.unshift({
+					kind: "heading",
+					level: 0,
+					text: options.announce,
+					offsets: options.announce.split("").map(() => 0),
+					from: 0,
+					to: 0,
+				});
+				this.paragraphs.unshift(options.announce);
+			}
+			this.languages = this.detectLanguages(this.paragraphs, overrides);
+
+			if (this.paragraphs.length === 0) {
+				new Notice("Nothing to read in this note");
+				this.isLoading = false;
+				this.speaking = false;
+				this.updateStatusBar("");
+				this.advanceQueue();
+				return;
+			}
+
+			// Use the selected voice service
+			const start =
+				options.startAt === undefined
+					? null
+					: this.spokenPositionAt(options.startAt);
+			if (
+				provider.kind === "audio" &&
+				!(await this.confirmUsage(
+					this.paragraphs
+						.slice(start?.paragraphIndex ?? 0)
+						.map((_, i) =>
+							this.getParagraphRequest(
+								provider,
+								i + (start?.paragraphIndex ?? 0)
+							)
+						),
+					"Read this note?",
+					"Read"
+				))
+			) {
+				this.isLoading = false;
+				this.speaking = false;
+				this.updateStatusBar("");
+				return;
 			}
+			await this.speakFrom(
+				start?.paragraphIndex ?? 0,
+				start?.offset ?? 0
+			);
+
+			// Update status bar after starting
+			this.updateStatusBar("");
+		} catch (error) {
+			console.error("Error starting speech:", error);
+			new Notice("Error starting speech. Please try again.");
+			this.isLoading = false;
+			this.speaking = false;
+			this.updateStatusBar("");
+		}
+	}
+
+	/**
+	 * Returns the provider selected in settings, falling back to the system
+	 * voices when the selected one is no longer registered.
+	 */
+	getActiveProvider(): TTSProvider {
+		return (
+			this.providers.get(this.settings.voiceService) ??
+			(this.providers.get("system") as TTSProvider)
+		);
+	}
+
+	/** The frontmatter settings of the note at `path` */
+	private getNoteOverrides(path: string | null): NoteOverrides {
+		const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+		if (!(file instanceof TFile)) return NO_OVERRIDES;
+		const cache = this.app.metadataCache.getFileCache(file);
+		return readNoteOverrides(cache?.frontmatter);
+	}
+
+	/** The provider a note names in tts-service, by id or by name */
+	private findProvider(service: string): TTSProvider | undefined {
+		const wanted = service.toLowerCase();
+		return this.providers
+			.list()
+			.find(
+				(provider) =>
+					provider.id.toLowerCase() === wanted ||
+					provider.name.toLowerCase() === wanted
+			);
+	}
+
+	/** The provider to read a note with, given its frontmatter settings */
+	private getProviderFor(overrides: NoteOverrides): TTSProvider {
+		return (
+			(overrides.service && this.findProvider(overrides.service)) ||
+			this.getActiveProvider()
+		);
+	}
+
+	/**
+	 * Adds the language of a note that does not declare one, when detection
+	 * is on, and the service and voice mapped to that language unless the
+	 * note picks its own.
+	 */
+	private withNoteLanguage(
+		overrides: NoteOverrides,
+		paragraphs: string[]
+	): NoteOverrides {
+		const language =
+			overrides.language ??
+			(this.settings.detectLanguage
+				? detectLanguage(paragraphs.join("\n"))
+				: undefined);
+		if (!language) return overrides;
+
+		const mapping = this.getLanguageVoice(language);
+		if (!mapping || overrides.service || overrides.voice) {
+			return { ...overrides, language };
+		}
+		return {
+			...overrides,
+			language,
+			service: mapping.service,
+			voice: mapping.voice,
 		};
+	}
+
+	/** The voice mapped to `language`, if its service is still registered */
+	private getLanguageVoice(language: string): LanguageVoice | undefined {
+		const mapping = findLanguageVoice(
+			this.settings.languageVoices,
+			language
+		);
+		return mapping && this.providers.get(mapping.service)
+			? mapping
+			: undefined;
+	}
+
+	/**
+	 * The language of each paragraph: its own when detection is on and can
+	 * tell, otherwise the note's. Headings and short list items say too
+	 * little and keep the note's.
+	 */
+	private detectLanguages(
+		paragraphs: string[],
+		overrides: NoteOverrides
+	): Array<string | undefined> {
+		return paragraphs.map(
+			(paragraph) =>
+				(this.settings.detectLanguage && detectLanguage(paragraph)) ||
+				overrides.language
+		);
+	}
+
+	/**
+	 * The service and voice for a paragraph in `language`. A paragraph in
+	 * another language than its note switches to the voice mapped to that
+	 * language, when its service plays the same way as `provider` (system
+	 * voices or audio clips) and is set up.
+	 */
+	private getParagraphVoice<T extends TTSProvider>(
+		provider: T,
+		language: string | undefined,
+		overrides = this.overrides
+	): { provider: T; voice: string } {
+		const mapping =
+			language &&
+			!(overrides.language && sameLanguage(language, overrides.language))
+				? this.getLanguageVoice(language)
+				: undefined;
+		const mapped = mapping && this.providers.get(mapping.service);
+		if (
+			mapping &&
+			mapped &&
+			mapped.kind === provider.kind &&
+			!this.failedProviders.has(mapped.id) &&
+			!mapped.checkConfiguration()
+		) {
+			return { provider: mapped as T, voice: mapping.voice };
+		}
+		return { provider, voice: this.getVoiceFor(provider, overrides) };
+	}
+
+	private isPlaybackPaused(): boolean {
+		return this.activeProvider?.kind === "utterance"
+			? this.speechSynthesis.paused
+			: !!this.currentAudio?.paused;
+	}
+
+	private stopCurrentSpeech() {
+		this.playbackSession++;
+		if (this.activeProvider?.kind === "utterance") {
+			this.speechSynthesis.cancel();
+		} else if (this.currentAudio) {
+			this.currentAudio.pause();
+			this.currentAudio = null;
+		}
+	}
+
+	/** Stops whatever is being read so something else can start */
+	private stopPlayback() {
+		if (!this.speaking) return;
+		this.rememberPosition();
+		this.stopCurrentSpeech();
+		this.cancelPrefetch();
+		this.speaking = false;
+		this.clearHighlights();
+	}
+
+	/**
+	 * Starts reading part of the note open in `view`, e.g. its selection,
+	 * instead of the whole note.
+	 */
+	async readPart(
+		view: MarkdownView,
+		select: (chunks: SpeechChunk[]) => SpeechChunk[]
+	) {
+		this.stopPlayback();
+		await this.speakText(view.getViewData(), { select });
+	}
+
+	private readSelection(editor: Editor, view: MarkdownView) {
+		const from = editor.posToOffset(editor.getCursor("from"));
+		const to = editor.posToOffset(editor.getCursor("to"));
+		return this.readPart(view, (chunks) =>
+			selectSourceRange(chunks, from, to)
+		);
+	}
+
+	private readFromCursor(editor: Editor, view: MarkdownView) {
+		const from = editor.posToOffset(editor.getCursor());
+		return this.readPart(view, (chunks) =>
+			selectSourceRange(chunks, from, Infinity)
+		);
+	}
+
+	private readSection(editor: Editor, view: MarkdownView) {
+		const offset = editor.posToOffset(editor.getCursor());
+		return this.readPart(view, (chunks) => sectionAt(chunks, offset));
+	}
+
+	/** Replaces the reading queue with `notes` and starts reading them */
+	async startQueue(notes: TFile[], description: string) {
+		if (notes.length === 0) {
+			new Notice(`No notes to read in ${description}`);
+			return;
+		}
+		this.queue.set(notes.map((note) => note.path));
+		new Notice(`Reading ${notes.length} notes from ${description}`);
+		await this.playQueueItem(0);
+	}
+
+	/** Adds notes to the end of the queue without interrupting reading */
+	private addToQueue(notes: TFile[]) {
+		this.queue.add(notes.map((note) => note.path));
+		new Notice(`Reading queue: ${this.queue.length} notes`);
+	}
+
+	/** Reads note `index` of the queue, announcing its title */
+	private async playQueueItem(index: number) {
+		const path = this.queue.get(index);
+		const file = path && this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return;
+
+		this.queue.index = index;
+		this.stopPlayback();
+		await this.speakText(await this.app.vault.cachedRead(file), {
+			path: file.path,
+			announce: this.settings.queueAnnounceTitles
+				? file.basename
+				: undefined,
+		});
+	}
+
+	/** Moves on to the next queued note once a queued note is finished */
+	private advanceQueue() {
+		if (this.readingPath !== this.queue.current()) return;
+		if (this.queue.has(this.queue.index + 1)) {
+			this.playQueueItem(this.queue.index + 1);
+		} else {
+			this.queue.index = -1;
+		}
+	}
+
+	private async skipNote(direction: "next" | "previous") {
+		const index = this.queue.index + (direction === "next" ? 1 : -1);
+		if (!this.queue.has(index)) {
+			new Notice(
+				direction === "next"
+					? "This is the last note in the queue"
+					: "This is the first note in the queue"
+			);
+			return;
+		}
+		await this.playQueueItem(index);
+	}
 
-		// Load voices immediately in case they're already available
-		loadVoices();
+	/** Writes the queue to a new note that can be played again later */
+	private async saveQueueAsPlaylist() {
+		const notes = this.queue
+			.list()
+			.map((path) => this.app.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile);
+		if (notes.length === 0) {
+			new Notice("The reading queue is empty");
+			return;
+		}
+
+		const parent = this.app.fileManager.getNewFileParent("");
+		const name = `Reading list ${window.moment().format("YYYY-MM-DD")}`;
+		const folder = parent.isRoot() ? "" : `${parent.path}/`;
+		let path = `${folder}${name}.md`;
+		for (let i = 2; this.app.vault.getAbstractFileByPath(path); i++) {
+			path = `${folder}${name} ${i}.md`;
+		}
+
+		const playlist = await this.app.vault.create(
+			path,
+			formatPlaylist(this.app, notes, path) + "\n"
+		);
+		await this.app.workspace.getLeaf(false).openFile(playlist);
+		new Notice(`Saved reading queue to ${playlist.path}`);
+	}
+
+	/** Drops clips synthesized ahead, e.g. when playback stops for good */
+	private cancelPrefetch() {
+		this.prefetcher?.cancel();
+		this.prefetcher = null;
+	}
 
-		// Also set up the event listener for when voices are loaded asynchronously
-		this.speechSynthesis.onvoiceschanged = loadVoices;
+	/**
+	 * Starts reading at paragraph `startIndex`, from spoken offset
+	 * `startOffset` within it.
+	 */
+	private async speakFrom(startIndex: number, startOffset = 0) {
+		const provider = this.activeProvider;
+		if (!provider) return;
+		// Starting or jumping brings the reading back into view
+		this.followPaused = false;
+
+		if (provider.kind === "utterance") {
+			await this.speakWithUtterances(provider, startIndex, startOffset);
+		} else {
+			await this.speakWithAudio(provider, startIndex, startOffset);
+		}
 	}
 
-	private async speakWithSystem(text: string) {
-		console.log("Starting speakWithSystem");
-		this.paragraphs = text.split(/\n\s*\n/);
-		console.log("Split into paragraphs, count:", this.paragraphs.length);
+	private async speakWithUtterances(
+		provider: UtteranceProvider,
+		startIndex: number,
+		startOffset = 0
+	) {
+		const session = this.playbackSession;
 
 		const processNextParagraph = () => {
+			// Cancelled utterances still report back after a stop or seek
+			if (session !== this.playbackSession) return;
+
 			if (this.currentParagraphIndex >= this.paragraphs.length) {
 				this.speaking = false;
 				this.isLoading = false;
+				this.forgetFinishedNote();
 				this.clearHighlights();
 				this.updateStatusBar("");
+				this.advanceQueue();
 				return;
 			}
 
 			const paragraph = this.paragraphs[this.currentParagraphIndex];
-			const utterance = new SpeechSynthesisUtterance(paragraph);
-			utterance.rate = this.settings.playbackSpeed;
-			utterance.pitch = this.settings.pitch;
-			utterance.volume = this.settings.volume;
-
-			if (this.defaultVoice) {
-				utterance.voice = this.defaultVoice;
-			}
+			// Only the first paragraph may start part way through
+			const offset = startOffset;
+			startOffset = 0;
+			this.utteranceOffset = offset;
+			this.rememberPosition();
+			this.highlightParagraph(this.currentParagraphIndex);
+			const language = this.languages[this.currentParagraphIndex];
+			const utterance = provider.createUtterance({
+				text: paragraph.substring(offset),
+				voice: this.getParagraphVoice(provider, language).voice,
+				speed: this.getPlaybackSpeed(),
+				language,
+			});
 
 			// Clear loading state when speech starts
 			this.isLoading = false;
@@ -422,6 +1586,7 @@ export default class TextToSpeechPlugin extends Plugin {
 					// Don't show error for intentional interruptions
 					return;
 				}
+				if (session !== this.playbackSession) return;
 				if (event.error === "synthesis-failed") {
 					// Handle synthesis failure by trying to continue with next paragraph
 					console.log("Synthesis failed, attempting next paragraph");
@@ -434,8 +1599,13 @@ export default class TextToSpeechPlugin extends Plugin {
 
 			// Handle word boundaries for highlighting
 			utterance.onboundary = (event) => {
+				if (!provider.capabilities.wordTimings) return;
+				if (session !== this.playbackSession) return;
+				if (event.name === "word") {
+					this.utteranceOffset = event.charIndex + offset;
+				}
 				if (event.name === "word" && this.settings.highlightEnabled) {
-					const wordIndex = event.charIndex;
+					const wordIndex = event.charIndex + offset;
 					let wordLength = event.charLength || 1;
 
 					// Get the word being spoken and its context
@@ -453,8 +1623,7 @@ export default class TextToSpeechPlugin extends Plugin {
 								this.highlightWord(
 									this.currentParagraphIndex,
 									wordIndex,
-									wordLength,
-									0
+									wordLength
 								);
 							}, 0);
 						}
@@ -463,7 +1632,7 @@ export default class TextToSpeechPlugin extends Plugin {
 			};
 
 			utterance.onend = () => {
-				if (this.speaking) {
+				if (this.speaking && session === this.playbackSession) {
 					this.currentParagraphIndex++;
 					processNextParagraph();
 				}
@@ -473,17 +1642,15 @@ export default class TextToSpeechPlugin extends Plugin {
 		};
 
 		this.speaking = true;
-		this.currentParagraphIndex = 0;
+		this.currentParagraphIndex = startIndex;
 		processNextParagraph();
 	}
 
-	private async speakWithElevenLabs(text: string) {
-		if (!this.settings.elevenLabsApiKey) {
-			this.isLoading = false;
-			new Notice("Please enter your Eleven Labs API key in settings");
-			return;
-		}
-
+	private async speakWithAudio(
+		provider: AudioProvider,
+		startIndex: number,
+		startOffset = 0
+	) {
 		// Stop any existing audio
 		if (this.currentAudio) {
 			this.currentAudio.pause();
@@ -491,67 +1658,87 @@ export default class TextToSpeechPlugin extends Plugin {
 		}
 
 		this.speaking = true;
-		this.paragraphs = text.split(/\n\s*\n/);
 		this.updateStatusBar("");
 
-		const processNextParagraph = async () => {
-			if (this.currentParagraphIndex >= this.paragraphs.length) {
+		// Keep the queue across skips so clips fetched ahead are reused
+		if (!this.prefetcher) {
+			const segments = this.getSegments(
+				this.paragraphs.map((_, i) =>
+					this.getParagraphRequest(provider, i)
+				)
+			);
+			this.segments = segments;
+			this.prefetcher = new PrefetchQueue<AudioClip>({
+				count: segments.length,
+				lookAhead: this.settings.prefetchCount,
+				concurrency: this.settings.prefetchConcurrency,
+				produce: (index, signal) =>
+					this.createAudioClip(segments[index], signal),
+				dispose: (clip) => URL.revokeObjectURL(clip.url),
+			});
+		}
+		const prefetcher = this.prefetcher;
+		const segments = this.segments;
+		const session = this.playbackSession;
+
+		const processNextSegment = async (index: number) => {
+			if (session !== this.playbackSession) return;
+
+			if (index >= segments.length) {
 				this.speaking = false;
 				this.isLoading = false;
+				this.forgetFinishedNote();
+				this.cancelPrefetch();
 				this.clearHighlights();
 				this.updateStatusBar("");
+				this.advanceQueue();
 				return;
 			}
 
-			const paragraph = this.paragraphs[this.currentParagraphIndex];
+			const segment = segments[index];
+			this.currentParagraphIndex = segment.paragraph;
 
 			try {
-				this.isLoading = true;
-				this.updateStatusBar("");
+				// Only show the spinner when the clip was not fetched ahead
+				if (!prefetcher.isReady(index)) {
+					this.isLoading = true;
+					this.updateStatusBar("");
+				}
 
-				const response = await fetch(
-					`https://api.elevenlabs.io/v1/text-to-speech/${this.settings.playbackVoice}`,
-					{
-						method: "POST",
-						headers: {
-							"Content-Type": "application/json",
-							"xi-api-key": this.settings.elevenLabsApiKey,
-						},
-						body: JSON.stringify({
-							text: paragraph,
-							model_id: "eleven_monolingual_v1",
-							voice_settings: {
-								stability: 0.5,
-								similarity_boost: 0.75,
-								speed: this.settings.playbackSpeed,
-							},
-						}),
-					}
-				);
+				const {
+					audio,
+					url: audioUrl,
+					timings,
+				} = await prefetcher.get(index);
+				const getTimings = (duration: number) =>
+					this.getSegmentTimings(segment, timings, duration);
 
-				if (!response.ok) {
-					throw new Error(`HTTP error! status: ${response.status}`);
+				// Playback was stopped or moved while this clip was loading
+				if (session !== this.playbackSession) {
+					URL.revokeObjectURL(audioUrl);
+					return;
 				}
 
-				const audioBlob = await response.blob();
-				const audioUrl = URL.createObjectURL(audioBlob);
-				const audio = new Audio(audioUrl);
-
 				this.isLoading = false;
 				this.updateStatusBar("");
 
 				// Add event listeners for audio
 				audio.onplay = () => {
 					this.speaking = true;
+					if (isFinite(audio.duration)) {
+						segment.duration = audio.duration;
+						this.updateParagraphDuration(segment.paragraph);
+					}
 					this.updateStatusBar("");
+					this.highlightParagraph(segment.paragraph);
+					this.rememberPosition();
 
 					// Start word highlighting if enabled
-					if (this.settings.highlightEnabled) {
-						this.highlightWord(
-							this.currentParagraphIndex,
-							0,
-							paragraph.length,
-							0
+					if (this.isFollowingWords()) {
+						this.startWordHighlighting(
+							segment.paragraph,
+							audio,
+							getTimings
 						);
 					}
 				};
@@ -562,159 +1749,642 @@ export default class TextToSpeechPlugin extends Plugin {
 
 				audio.onended = () => {
 					URL.revokeObjectURL(audioUrl);
-					if (this.speaking) {
-						this.currentParagraphIndex++;
-						processNextParagraph();
+					if (this.speaking && session === this.playbackSession) {
+						processNextSegment(index + 1);
 					}
 				};
 
-				audio.onerror = (error) => {
+				const stopOnPlaybackError = (error: unknown) => {
 					console.error("Audio playback error:", error);
 					new Notice("Error playing audio");
 					URL.revokeObjectURL(audioUrl);
+					this.cancelPrefetch();
 					this.speaking = false;
 					this.isLoading = false;
 					this.updateStatusBar("");
 				};
+				audio.onerror = stopOnPlaybackError;
+
+				// Only the first segment may start part way through
+				if (startOffset > 0) {
+					this.seekAudio(audio, getTimings, startOffset);
+					startOffset = 0;
+				}
 
 				this.currentAudio = audio;
-				await audio.play();
+				this.currentSegment = segment;
+				this.currentTimings = timings;
+				audio.playbackRate = this.getPlaybackRate(segment);
+
+				// The clip is fine, so a refused or broken playback is not
+				// the service's fault and no reason to switch to another one.
+				// Pausing before playback starts also rejects, harmlessly.
+				try {
+					await audio.play();
+				} catch (error) {
+					if (
+						session === this.playbackSession &&
+						!isAbortError(error)
+					) {
+						stopOnPlaybackError(error);
+					}
+				}
 			} catch (error) {
-				console.error("Error with Eleven Labs API:", error);
-				new Notice("Error generating speech with Eleven Labs");
+				if (session !== this.playbackSession) return;
+
+				// A paragraph in another language may have its own service
+				const failed = segment.provider;
+				console.error(`Error with ${failed.name} API:`, error);
+				const message = describeError(error, failed.name);
+				this.cancelPrefetch();
+
+				// Carry on from this paragraph with the next service, or
+				// past the spending cap with the system voice if allowed.
+				// Anything but a failed request says nothing against the
+				// service, so it is not worth paying another one for.
+				let fallback: TTSProvider | null = null;
+				if (error instanceof SynthesisError) {
+					fallback =
+						error.kind === "spending-cap"
+							? this.getSpendingCapFallback()
+							: this.getFallbackProvider(failed);
+				}
+				if (fallback) {
+					new Notice(`${message} Continuing with ${fallback.name}.`);
+					this.activeProvider = fallback;
+					await this.speakFrom(segment.paragraph, segment.start);
+					return;
+				}
+
+				new Notice(message);
 				this.speaking = false;
 				this.isLoading = false;
 				this.updateStatusBar("");
 			}
 		};
 
-		this.currentParagraphIndex = 0;
-		await processNextParagraph();
+		this.currentParagraphIndex = startIndex;
+		await processNextSegment(this.findSegment(startIndex, startOffset));
 	}
 
-	private async speakWithOpenAI(text: string) {
-		if (!this.settings.openAIApiKey) {
-			this.isLoading = false;
-			new Notice("Please enter your OpenAI API key in settings");
-			return;
+	/**
+	 * Index of the segment holding spoken offset `offset` of paragraph
+	 * `paragraph`, or the number of segments when there is none.
+	 */
+	private findSegment(paragraph: number, offset: number): number {
+		let index = this.segments.findIndex(
+			(segment) => segment.paragraph === paragraph
+		);
+		if (index < 0) return this.segments.length;
+		while (
+			this.segments[index + 1]?.paragraph === paragraph &&
+			this.segments[index + 1].start <= offset
+		) {
+			index++;
 		}
+		return index;
+	}
 
-		// Stop any existing audio
-		if (this.currentAudio) {
-			this.currentAudio.pause();
-			this.currentAudio = null;
+	/** Sums a paragraph's length once every one of its segments played */
+	private updateParagraphDuration(paragraph: number) {
+		const parts = this.segments.filter(
+			(segment) => segment.paragraph === paragraph
+		);
+		if (parts.every((part) => part.duration)) {
+			this.paragraphDurations[paragraph] = parts.reduce(
+				(sum, part) => sum + (part.duration ?? 0),
+				0
+			);
 		}
+	}
 
-		this.speaking = true;
-		this.paragraphs = text.split(/\n\s*\n/);
-		this.updateStatusBar("");
-
-		const processNextParagraph = async () => {
-			if (this.currentParagraphIndex >= this.paragraphs.length) {
-				this.speaking = false;
-				this.isLoading = false;
-				this.clearHighlights();
-				this.updateStatusBar("");
-				return;
-			}
-
-			const paragraph = this.paragraphs[this.currentParagraphIndex];
-
-			try {
-				this.isLoading = true;
-				this.updateStatusBar("");
+	/**
+	 * The first service in the fallback chain that has not failed during
+	 * this reading and is ready to speak, or null when the chain is
+	 * exhausted. `failed` is left out from now on, also as the voice of
+	 * a language.
+	 */
+	private getFallbackProvider(failed: TTSProvider): TTSProvider | null {
+		this.failedProviders.add(failed.id);
+		const chain = [
+			this.getProviderFor(this.overrides).id,
+			this.settings.voiceService,
+			...this.settings.fallbackServices,
+		];
+		return this.providers.firstUsable(chain, this.failedProviders);
+	}
 
-				const response = await fetch(
-					"https://api.openai.com/v1/audio/speech",
-					{
-						method: "POST",
-						headers: {
-							"Content-Type": "application/json",
-							Authorization: `Bearer ${this.settings.openAIApiKey}`,
-						},
-						body: JSON.stringify({
-							model: "tts-1",
-							voice: this.settings.playbackVoice,
-							input: paragraph,
-							speed: this.settings.playbackSpeed,
-						}),
-					}
-				);
+	/** The free system voice, when settings allow reading on with it */
+	private getSpendingCapFallback(): TTSProvider | null {
+		return this.settings.spendingCapAction === "system"
+			? this.providers.get("system") ?? null
+			: null;
+	}
 
-				if (!response.ok) {
-					throw new Error(`HTTP error! status: ${response.status}`);
-				}
+	/**
+	 * The voice to read with: the note's own for the service it names, the
+	 * chosen one for the selected service, and the default voice for a
+	 * fallback service.
+	 */
+	private getVoiceFor(
+		provider: TTSProvider,
+		overrides = this.overrides
+	): string {
+		if (
+			overrides.voice &&
+			provider.id === this.getProviderFor(overrides).id
+		) {
+			return overrides.voice;
+		}
+		return provider.id === this.getActiveProvider().id
+			? this.settings.playbackVoice
+			: provider.getDefaultVoice();
+	}
 
-				const audioBlob = await response.blob();
-				const audioUrl = URL.createObjectURL(audioBlob);
-				const audio = new Audio(audioUrl);
+	/**
+	 * Word timings of the clip for `segment`, with offsets in the whole
+	 * paragraph: `timings` from the service, or estimated from `duration`.
+	 */
+	private getSegmentTimings(
+		segment: AudioSegment,
+		timings: WordTiming[] | undefined,
+		duration: number
+	): WordTiming[] {
+		return (
+			timings ??
+			offsetTimings(
+				estimateWordTimings(segment.request.text, duration),
+				segment.start,
+				0
+			)
+		);
+	}
 
-				this.isLoading = false;
-				this.updateStatusBar("");
+	/** Moves `audio` to the word at spoken offset `offset` */
+	private seekAudio(
+		audio: HTMLAudioElement,
+		getTimings: (duration: number) => WordTiming[],
+		offset: number
+	) {
+		const seek = () => {
+			audio.currentTime = timeAtOffset(
+				getTimings(audio.duration),
+				offset
+			);
+		};
+		if (isFinite(audio.duration)) {
+			seek();
+		} else {
+			audio.addEventListener("loadedmetadata", seek, { once: true });
+		}
+	}
 
-				// Add event listeners for audio
-				audio.onplay = () => {
-					this.speaking = true;
-					this.updateStatusBar("");
+	/** The service and request that synthesize paragraph `index` */
+	private getParagraphRequest(
+		provider: AudioProvider,
+		index: number
+	): { provider: AudioProvider; request: SynthesisRequest } {
+		const language = this.languages[index];
+		const voice = this.getParagraphVoice(provider, language);
+		return {
+			provider: voice.provider,
+			request: {
+				text: this.paragraphs[index],
+				voice: voice.voice,
+				speed: this.getSynthesisSpeed(
+					voice.provider,
+					this.getPlaybackSpeed()
+				),
+				language,
+			},
+		};
+	}
 
-					// Start word highlighting if enabled
-					if (this.settings.highlightEnabled) {
-						this.highlightWord(
-							this.currentParagraphIndex,
-							0,
-							paragraph.length,
-							0
-						);
-					}
-				};
+	/**
+	 * Synthesizes a segment and loads it into an audio element, so the
+	 * browser has decoded it by the time the previous clip ends.
+	 */
+	private async createAudioClip(
+		segment: AudioSegment,
+		signal: AbortSignal
+	): Promise<AudioClip> {
+		const { audio: audioBlob, timings } = await this.synthesizeCached(
+			segment.provider,
+			{ ...segment.request, signal }
+		);
+		const url = URL.createObjectURL(audioBlob);
+		const audio = new Audio(url);
+		audio.preload = "auto";
+		audio.volume = this.settings.volume;
+		return {
+			audio,
+			url,
+			timings: timings && offsetTimings(timings, segment.start, 0),
+		};
+	}
 
-				audio.onpause = () => {
-					this.updateStatusBar("");
-				};
+	/** Where a paragraph is split into requests the service takes */
+	private splitRequest(provider: AudioProvider, request: SynthesisRequest) {
+		return groupSentences(
+			request.text,
+			Math.min(
+				provider.getMaxInputLength(request.language),
+				SENTENCE_GROUP_LENGTH
+			),
+			request.language
+		);
+	}
 
-				audio.onended = () => {
-					URL.revokeObjectURL(audioUrl);
-					if (this.speaking) {
-						this.currentParagraphIndex++;
-						processNextParagraph();
-					}
-				};
+	/**
+	 * Splits paragraphs into the requests that synthesize them: one for a
+	 * paragraph, or one per group of sentences when it is longer than the
+	 * service takes at once or than SENTENCE_GROUP_LENGTH.
+	 */
+	private getSegments(
+		paragraphs: Array<{
+			provider: AudioProvider;
+			request: SynthesisRequest;
+		}>
+	): AudioSegment[] {
+		const segments: AudioSegment[] = [];
+		paragraphs.forEach(({ provider, request }, paragraph) => {
+			const parts = this.splitRequest(provider, request);
+			if (parts.length <= 1) {
+				segments.push({ paragraph, start: 0, provider, request });
+				return;
+			}
+			for (const part of parts) {
+				segments.push({
+					paragraph,
+					start: part.start,
+					provider,
+					request: {
+						...request,
+						text: request.text.substr(part.start, part.length),
+					},
+				});
+			}
+		});
+		return segments;
+	}
 
-				audio.onerror = (error) => {
-					console.error("Audio playback error:", error);
-					new Notice("Error playing audio");
-					URL.revokeObjectURL(audioUrl);
-					this.speaking = false;
-					this.isLoading = false;
-					this.updateStatusBar("");
-				};
+	/** Adds the lexicon's phonemes for services and models that read SSML */
+	private addPhonemes(
+		provider: AudioProvider,
+		request: SynthesisRequest
+	): SynthesisRequest {
+		if (
+			!provider.capabilities.ssml ||
+			provider.acceptsSsml?.(request.language) === false
+		) {
+			return request;
+		}
+		const ssml = toSsml(request.text, this.pronunciations);
+		return ssml ? { ...request, ssml } : request;
+	}
 
-				this.currentAudio = audio;
-				await audio.play();
+	private getCacheKey(
+		provider: AudioProvider,
+		request: SynthesisRequest
+	): AudioCacheKey {
+		return {
+			provider: provider.id,
+			voice: request.voice,
+			model: provider.getModelId(request.language),
+			speed: request.speed,
+			text: request.ssml ?? request.text,
+			format: request.format,
+		};
+	}
+
+	/**
+	 * What sending `request` costs, or null when the service does not bill
+	 * by the character.
+	 */
+	private getUsage(
+		provider: AudioProvider,
+		request: SynthesisRequest
+	): Usage | null {
+		const price = provider.getCharacterPrice?.(request.language);
+		if (price === undefined) return null;
+		// Billed for what is sent: the SSML for models that read it (see
+		// addPhonemes), otherwise the plain text
+		const characters = (request.ssml ?? request.text).length;
+		return { characters, cost: (characters * price) / 1000000 };
+	}
+
+	/**
+	 * Reserves `usage` in the ledger before its request is sent. Throws
+	 * when it would take this month over the spending cap.
+	 */
+	private async reserveUsage(usage: Usage) {
+		const cap = this.settings.monthlySpendingCap;
+		if (!(await this.usage.reserve(usage, cap))) {
+			throw new SynthesisError(
+				"spending-cap",
+				`Monthly spending cap of ${formatCost(cap)} reached`
+			);
+		}
+	}
+
+	/**
+	 * Estimates what synthesizing `paragraphs` costs with services that
+	 * bill by the character. Parts already in the audio cache are free.
+	 */
+	private async estimateUsage(
+		paragraphs: Array<{
+			provider: AudioProvider;
+			request: SynthesisRequest;
+		}>
+	): Promise<Usage> {
+		let total: Usage = { characters: 0, cost: 0 };
+		for (const { provider, request } of this.getSegments(paragraphs)) {
+			const sent = this.addPhonemes(provider, request);
+			const usage = this.getUsage(provider, sent);
+			if (
+				!usage ||
+				(this.settings.audioCacheEnabled &&
+					(await this.audioCache.has(
+						this.getCacheKey(provider, sent)
+					)))
+			) {
+				continue;
+			}
+			total = {
+				characters: total.characters + usage.characters,
+				cost: total.cost + usage.cost,
+			};
+		}
+		return total;
+	}
+
+	/**
+	 * Asks before sending more characters than the confirmation threshold
+	 * to services that bill by the character. Resolves to false when the
+	 * user cancels.
+	 */
+	private async confirmUsage(
+		paragraphs: Array<{
+			provider: AudioProvider;
+			request: SynthesisRequest;
+		}>,
+		title: string,
+		confirmText: string
+	): Promise<boolean> {
+		const threshold = this.settings.confirmCharacters;
+		if (threshold <= 0) return true;
+		const usage = await this.estimateUsage(paragraphs);
+		if (usage.characters < threshold) return true;
+
+		let message = `~${usage.characters.toLocaleString()} characters, ≈ ${formatCost(
+			usage.cost
+		)}.`;
+		const cap = this.settings.monthlySpendingCap;
+		if (cap > 0) {
+			const month = await this.usage.getMonthTotal();
+			message += ` ${formatCost(month.cost)} of your ${formatCost(
+				cap
+			)} monthly cap is used.`;
+		}
+		return new Promise((resolve) =>
+			new ConfirmModal(
+				this.app,
+				title,
+				message,
+				confirmText,
+				resolve
+			).open()
+		);
+	}
+
+	/**
+	 * Returns the clip for `request` from the audio cache, synthesizing and
+	 * storing it on a miss. Word timings come along when the provider has
+	 * them.
+	 */
+	private async synthesizeCached(
+		provider: AudioProvider,
+		request: SynthesisRequest
+	): Promise<TimedAudio> {
+		request = this.addPhonemes(provider, request);
+		const synthesize = async (): Promise<TimedAudio> => {
+			const usage = this.getUsage(provider, request);
+			if (!usage) {
+				return provider.synthesizeWithTimings
+					? provider.synthesizeWithTimings(request)
+					: { audio: await provider.synthesize(request) };
+			}
+
+			await this.reserveUsage(usage);
+			let clip: TimedAudio;
+			try {
+				clip = provider.synthesizeWithTimings
+					? await provider.synthesizeWithTimings(request)
+					: { audio: await provider.synthesize(request) };
 			} catch (error) {
-				console.error("Error with OpenAI API:", error);
-				new Notice("Error generating speech with OpenAI");
-				this.speaking = false;
-				this.isLoading = false;
-				this.updateStatusBar("");
+				this.usage.release(usage);
+				throw error;
 			}
+			this.usage
+				.record(provider.id, usage)
+				.catch((error) =>
+					console.error("Error recording usage:", error)
+				);
+			return clip;
 		};
 
-		this.currentParagraphIndex = 0;
-		await processNextParagraph();
+		if (!this.settings.audioCacheEnabled) {
+			return synthesize();
+		}
+
+		const key = this.getCacheKey(provider, request);
+		const cached = await this.audioCache.get(key);
+		if (cached) return cached;
+
+		const clip = await synthesize();
+		this.audioCache
+			.put(key, clip)
+			.catch((error) => console.error("Error caching audio:", error));
+		return clip;
 	}
 
-	private getHighlightStyle(color: string): { css: string } {
-		console.log("Getting highlight style for color:", color);
+	/**
+	 * Renders the whole note through the selected voice service into a
+	 * single audio file saved with the note's attachments.
+	 */
+	async exportNoteAudio(file: TFile) {
+		let overrides = this.getNoteOverrides(file.path);
+		if (!overrides.enabled) {
+			new Notice("This note has tts: false in its frontmatter");
+			return;
+		}
+		const chunks = respell(
+			skipSections(
+				prepareSpeech(
+					await this.app.vault.cachedRead(file),
+					this.settings
+				),
+				overrides.skipSections
+			),
+			this.pronunciations
+		);
+		if (chunks.length === 0) {
+			new Notice("Nothing to read in this note");
+			return;
+		}
+		const texts = chunks.map((chunk) => chunk.text);
+		overrides = this.withNoteLanguage(overrides, texts);
+		const languages = this.detectLanguages(texts, overrides);
+
+		const provider = this.getProviderFor(overrides);
+		if (provider.kind !== "audio") {
+			new Notice(
+				`${provider.name} cannot record audio. Choose another voice service to export notes.`
+			);
+			return;
+		}
+		const configurationProblem = provider.checkConfiguration();
+		if (configurationProblem) {
+			new Notice(configurationProblem);
+			return;
+		}
+
+		const format = this.settings.exportFormat;
+		const speed = overrides.speed ?? this.settings.playbackSpeed;
+		const paragraphs = texts.map((text, i) => {
+			const voice = this.getParagraphVoice(
+				provider,
+				languages[i],
+				overrides
+			);
+			return {
+				provider: voice.provider,
+				request: {
+					text,
+					voice: voice.voice,
+					speed: this.getSynthesisSpeed(voice.provider, speed),
+					language: languages[i],
+					format,
+				},
+			};
+		});
+		if (
+			!(await this.confirmUsage(
+				paragraphs,
+				`Export "${file.basename}"?`,
+				"Export"
+			))
+		) {
+			return;
+		}
+
+		const controller = new AbortController();
+		const progressEl = createSpan();
+		const notice = new Notice(
+			createFragment((el) => {
+				el.appendChild(progressEl);
+				el.createEl("button", {
+					text: "Cancel",
+					cls: "tts-export-cancel",
+				}).addEventListener("click", () => controller.abort());
+			}),
+			0
+		);
+		const setProgress = (done: number) => {
+			progressEl.setText(
+				`Exporting "${file.basename}": ${done}/${chunks.length} paragraphs`
+			);
+		};
+		setProgress(0);
+
+		const segments = this.getSegments(paragraphs);
+		const queue = new PrefetchQueue<ArrayBuffer>({
+			count: segments.length,
+			lookAhead: this.settings.prefetchConcurrency,
+			concurrency: this.settings.prefetchConcurrency,
+			produce: async (index, signal) => {
+				const segment = segments[index];
+				const clip = await this.synthesizeCached(segment.provider, {
+					...segment.request,
+					signal,
+				});
+				return clip.audio.arrayBuffer();
+			},
+			dispose: () => undefined,
+		});
+		controller.signal.addEventListener("abort", () => queue.cancel());
+
+		try {
+			const clips: ArrayBuffer[] = [];
+			for (let i = 0; i < segments.length; i++) {
+				const clip = await queue.get(i);
+				if (controller.signal.aborted) return;
+				clips.push(clip);
+				// Paragraphs before the next segment's are done
+				setProgress(segments[i + 1]?.paragraph ?? chunks.length);
+			}
+
+			progressEl.setText(`Saving "${file.basename}"...`);
+			const data = await joinClips(clips, format);
+			if (controller.signal.aborted) return;
+
+			const path =
+				await this.app.fileManager.getAvailablePathForAttachment(
+					`${file.basename}.${EXPORT_EXTENSIONS[format]}`,
+					file.path
+				);
+			const audioFile = await this.app.vault.createBinary(path, data);
+			await this.linkExportedAudio(file, audioFile);
+
+			notice.hide();
+			new Notice(`Saved ${audioFile.path}`);
+		} catch (error) {
+			if (controller.signal.aborted) return;
+			console.error("Error exporting audio:", error);
+			notice.hide();
+			const reason = error instanceof Error ? error.message : error;
+			new Notice(
+				error instanceof SynthesisError
+					? describeError(error, provider.name)
+					: `Error exporting audio: ${reason}`
+			);
+		} finally {
+			queue.cancel();
+			if (controller.signal.aborted) {
+				notice.hide();
+				new Notice("Audio export cancelled");
+			}
+		}
+	}
+
+	private async linkExportedAudio(file: TFile, audioFile: TFile) {
+		const link = this.app.fileManager.generateMarkdownLink(
+			audioFile,
+			file.path
+		);
+
+		if (this.settings.exportLink === "embed") {
+			await this.app.vault.process(
+				file,
+				(data) => `${data.replace(/\s*$/, "")}\n\n!${link}\n`
+			);
+		} else if (this.settings.exportLink === "frontmatter") {
+			await this.app.fileManager.processFrontMatter(
+				file,
+				(frontmatter) => {
+					frontmatter.audio = link;
+				}
+			);
+		}
+	}
 
+	private getHighlightStyle(color: string): { css: string } {
 		let css = "";
 		const transition = this.settings.highlightAnimation
-			? "transition: all 0.3s ease;"
+			? "animation: tts-highlight-in 0.2s ease-out;"
 			: "";
 
-		// Ensure we're using the color from settings
-		const highlightColor = this.settings.wordColor;
-		console.log("Using highlight color from settings:", highlightColor);
+		const highlightColor = color;
 
 		switch (this.settings.highlightStyle) {
 			case "background":
@@ -727,175 +2397,234 @@ export default class TextToSpeechPlugin extends Plugin {
 				css = `border-bottom: 2px solid ${highlightColor}; ${transition}`;
 		}
 
-		console.log("Generated CSS:", css);
 		return { css };
 	}
 
-	private findParagraphPosition(
-		text: string,
-		targetParagraphIndex: number
-	): { start: number; end: number } {
-		const lines = text.split("\n");
-		let offset = 0;
-		let paragraphCount = 0;
-		let paragraphStart = 0;
-		let inParagraph = false;
-		let currentText = "";
-
-		console.log(`[Debug] Finding paragraph ${targetParagraphIndex}`);
-		console.log(`[Debug] Total lines:`, lines.length);
-
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i];
-			const trimmedLine = line.trim();
-
-			// Track the current text for debugging
-			currentText = text.substring(0, offset);
-
-			console.log(`[Debug] Line ${i}:`, {
-				raw: line,
-				trimmed: trimmedLine,
-				offset,
-				paragraphCount,
-				inParagraph,
-			});
-
-			if (trimmedLine === "") {
-				if (inParagraph) {
-					if (paragraphCount === targetParagraphIndex) {
-						console.log(`[Debug] Found paragraph end:`, {
-							start: paragraphStart,
-							end: offset,
-							text: text.substring(paragraphStart, offset),
-						});
-						return { start: paragraphStart, end: offset };
-					}
-					paragraphCount++;
-					inParagraph = false;
-				}
-			} else {
-				if (!inParagraph) {
-					inParagraph = true;
-					if (paragraphCount === targetParagraphIndex) {
-						paragraphStart = offset;
-						console.log(
-							`[Debug] Starting new paragraph at offset:`,
-							offset
-						);
-					}
-				}
-			}
-
-			// Add the line length and the newline character
-			offset += line.length + 1;
-		}
-
-		// Handle last paragraph
-		if (inParagraph && paragraphCount === targetParagraphIndex) {
-			console.log(`[Debug] Found last paragraph:`, {
-				start: paragraphStart,
-				end: offset,
-				text: text.substring(paragraphStart, offset),
-			});
-			return { start: paragraphStart, end: offset };
-		}
-
-		console.log(
-			`[Debug] No paragraph found at index ${targetParagraphIndex}`
-		);
-		return { start: 0, end: 0 };
+	private findParagraphPosition(targetParagraphIndex: number): {
+		start: number;
+		end: number;
+	} {
+		const chunk = this.chunks[targetParagraphIndex];
+		if (!chunk) return { start: 0, end: 0 };
+		return { start: chunk.from, end: chunk.to };
 	}
 
+	/** Marks the word being spoken and the sentence it belongs to */
 	private highlightWord(
 		paragraphIndex: number,
 		wordStart: number,
-		wordLength: number,
-		paragraphStart: number
+		wordLength: number
 	) {
-		if (!this.settings.highlightEnabled || !this.settings.highlightWord) {
-			return;
-		}
+		if (!this.isFollowingWords()) return;
 
-		// Clear previous word highlight
-		if (this.currentWordEl) {
-			this.currentWordEl.clear();
+		if (this.settings.highlightSentence) {
+			const sentence = sentenceAt(
+				this.sentencesOf(paragraphIndex),
+				wordStart
+			);
+			if (sentence) {
+				this.highlightSentence(
+					paragraphIndex,
+					sentence.start,
+					sentence.length
+				);
+			}
+		}
+		if (this.settings.highlightWord) {
+			this.highlights.word = {
+				paragraphIndex,
+				start: wordStart,
+				length: wordLength,
+				css: this.getHighlightStyle(this.settings.wordColor).css,
+			};
 		}
+		this.renderHighlights();
+	}
 
-		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!view) return;
+	/** Whether highlights move along word by word as they are spoken */
+	private isFollowingWords(): boolean {
+		return (
+			this.settings.highlightEnabled &&
+			(this.settings.highlightWord || this.settings.highlightSentence)
+		);
+	}
 
-		const editor = view.editor;
-		const text = editor.getValue();
+	/** Marks the paragraph about to be read, dropping the word highlight */
+	private highlightParagraph(paragraphIndex: number) {
+		if (!this.settings.highlightEnabled) return;
 
-		// Calculate absolute position using the provided paragraph start
-		const absolutePosition = paragraphStart + wordStart;
+		this.highlights = { paragraph: { paragraphIndex } };
+		this.renderHighlights();
+	}
 
-		console.log(`[Debug] Word highlighting:`, {
-			paragraphIndex,
-			paragraphStart,
-			wordStart,
-			absolutePosition,
-			wordText: text.substring(
-				absolutePosition,
-				absolutePosition + wordLength
-			),
-		});
+	/**
+	 * Draws the current highlights into the active note, in the editor or
+	 * in Reading view depending on its mode.
+	 */
+	private renderHighlights() {
+		const kinds: HighlightKind[] = ["paragraph", "sentence", "word"];
+		const view = this.getReadingView();
+		const isReading = view?.getMode() === "preview";
+
+		const editorRanges: HighlightRange[] = [];
+		const readingRanges: ReadingRange[] = [];
+		for (const kind of kinds) {
+			const spoken = this.highlights[kind];
+			const chunk = spoken && this.chunks[spoken.paragraphIndex];
+			// Announcements have no place in the note
+			if (!spoken || !chunk || chunk.from >= chunk.to) continue;
+
+			if (isReading) {
+				readingRanges.push({
+					kind,
+					...this.chunkLines(chunk),
+					blockText: chunk.text,
+					start: spoken.start,
+					length: spoken.length,
+					css: spoken.css,
+				});
+				continue;
+			}
 
-		// Validate position
-		if (
-			absolutePosition >= text.length ||
-			absolutePosition + wordLength > text.length
-		) {
-			console.warn("Invalid word position:", {
-				absolutePosition,
-				wordLength,
-				textLength: text.length,
-			});
-			return;
+			// Map the spoken range back to its place in the note source
+			const range =
+				spoken.start === undefined || spoken.length === undefined
+					? { from: chunk.from, to: chunk.to }
+					: toSourceRange(chunk, spoken.start, spoken.length);
+			editorRanges.push({ kind, ...range, css: spoken.css });
 		}
 
-		// Calculate positions
-		const from = editor.offsetToPos(absolutePosition);
-		const to = editor.offsetToPos(absolutePosition + wordLength);
+		const editorView =
+			view && !isReading ? getEditorView(view.editor) : null;
+		if (this.highlightedView && this.highlightedView !== editorView) {
+			setEditorHighlights(this.highlightedView, []);
+		}
+		this.highlightedView = editorRanges.length > 0 ? editorView : null;
+		const scroll = this.settings.followReading && !this.followPaused;
+		if (editorView) {
+			setEditorHighlights(
+				editorView,
+				editorRanges,
+				this.sourceText,
+				scroll
+			);
+		}
 
-		try {
-			// Use Obsidian's built-in editor API for highlighting
-			editor.setSelection(from, to);
-
-			// Store reference for cleanup
-			this.currentWordEl = {
-				clear: () => {
-					const cursor = editor.getCursor();
-					editor.setSelection(cursor, cursor);
-				},
-			};
-		} catch (error) {
-			console.warn("Error applying highlight:", error);
+		if (view && isReading) {
+			this.readingHighlighter.render(
+				view.previewMode.containerEl,
+				readingRanges,
+				scroll,
+				(line) => view.previewMode.applyScroll(line)
+			);
+		} else {
+			this.readingHighlighter.clear();
+		}
+	}
+
+	/**
+	 * The open note being read: the active one, or the one last active
+	 * while e.g. the player view has focus. Notes from the reading queue
+	 * are read without being opened.
+	 */
+	private getReadingView(): MarkdownView | null {
+		const { workspace } = this.app;
+		const view =
+			workspace.getActiveViewOfType(MarkdownView) ??
+			workspace.getMostRecentLeaf()?.view;
+		return view instanceof MarkdownView &&
+			view.file?.path === this.readingPath
+			? view
+			: null;
+	}
+
+	/** Source lines a chunk was read from */
+	private chunkLines(chunk: SpeechChunk): {
+		lineStart: number;
+		lineEnd: number;
+	} {
+		return {
+			lineStart: this.lineAt(chunk.from),
+			lineEnd: this.lineAt(Math.max(chunk.from, chunk.to - 1)),
+		};
+	}
+
+	/** Zero-based line of `offset` in the note being read */
+	private lineAt(offset: number): number {
+		let line = 0;
+		let index = this.sourceText.indexOf("\n");
+		while (index !== -1 && index < offset) {
+			line++;
+			index = this.sourceText.indexOf("\n", index + 1);
 		}
+		return line;
 	}
 
+	/** Marks a sentence; drawn by the next `renderHighlights` */
 	private highlightSentence(
 		paragraphIndex: number,
 		sentenceStart: number,
 		sentenceLength: number
 	) {
-		// Since we're removing sentence highlighting, just return
-		return;
+		const transition = this.settings.highlightAnimation
+			? "animation: tts-highlight-in 0.2s ease-out;"
+			: "";
+		this.highlights.sentence = {
+			paragraphIndex,
+			start: sentenceStart,
+			length: sentenceLength,
+			// A tint, so the word's own highlight shows on top of it
+			css: `background-color: color-mix(in srgb, ${this.settings.sentenceColor} 25%, transparent); border-radius: 3px; ${transition}`,
+		};
 	}
 
-	private clearHighlights() {
-		if (this.currentParagraphEl) {
-			this.currentParagraphEl.clear();
-			this.currentParagraphEl = null;
+	private sentencesOf(paragraphIndex: number): Sentence[] {
+		if (!this.sentences[paragraphIndex]) {
+			this.sentences[paragraphIndex] = splitSentences(
+				this.paragraphs[paragraphIndex] ?? "",
+				this.languages[paragraphIndex]
+			);
 		}
-		if (this.currentWordEl) {
-			this.currentWordEl.clear();
-			this.currentWordEl = null;
+		return this.sentences[paragraphIndex];
+	}
+
+	/**
+	 * Moves to the start of the next or previous sentence, crossing into
+	 * the neighbouring paragraph at either end of this one.
+	 */
+	async skipToSentence(direction: "next" | "previous") {
+		if (!this.speaking || this.isLoading) return;
+
+		const paragraphIndex = this.currentParagraphIndex;
+		const sentences = this.sentencesOf(paragraphIndex);
+		const current = sentenceAt(sentences, this.getCurrentSpokenOffset());
+		const index = current ? sentences.indexOf(current) : -1;
+
+		if (direction === "next") {
+			if (index + 1 < sentences.length) {
+				await this.seekTo(paragraphIndex, sentences[index + 1].start);
+			} else if (paragraphIndex + 1 < this.paragraphs.length) {
+				await this.seekTo(paragraphIndex + 1, 0);
+			}
+			return;
 		}
-		if (this.currentSentenceEl) {
-			this.currentSentenceEl.clear();
-			this.currentSentenceEl = null;
+
+		if (index > 0) {
+			await this.seekTo(paragraphIndex, sentences[index - 1].start);
+		} else if (paragraphIndex > 0) {
+			const previous = this.sentencesOf(paragraphIndex - 1);
+			await this.seekTo(
+				paragraphIndex - 1,
+				previous[previous.length - 1]?.start ?? 0
+			);
+		} else {
+			await this.seekTo(paragraphIndex, 0);
 		}
+	}
+
+	private clearHighlights() {
+		this.highlights = {};
+		this.renderHighlights();
 		if (this.wordHighlightInterval !== null) {
 			window.cancelAnimationFrame(this.wordHighlightInterval);
 			this.wordHighlightInterval = null;
@@ -904,8 +2633,20 @@ export default class TextToSpeechPlugin extends Plugin {
 
 	onunload() {
 		if (this.speaking) {
-			this.speechSynthesis.cancel();
+			this.rememberPosition();
+			this.stopCurrentSpeech();
 		}
+		this.listening
+			.save()
+			.catch((error) =>
+				console.error("Error saving listening positions:", error)
+			);
+		this.usage
+			.save()
+			.catch((error) =>
+				console.error("Error saving usage ledger:", error)
+			);
+		this.cancelPrefetch();
 		this.clearHighlights();
 		if (this.wordHighlightInterval !== null) {
 			window.cancelAnimationFrame(this.wordHighlightInterval);
@@ -914,12 +2655,43 @@ export default class TextToSpeechPlugin extends Plugin {
 		this.statusBarEl?.remove();
 	}
 
+	/** The note named in the Lexicon Note setting, if it exists */
+	getLexiconNote(): TFile | null {
+		const path = this.settings.lexiconNote.trim();
+		return path
+			? this.app.metadataCache.getFirstLinkpathDest(path, "")
+			: null;
+	}
+
+	/** Compiles the lexicon from settings and the lexicon note */
+	async loadPronunciations() {
+		let entries = this.settings.lexicon;
+		const note = this.getLexiconNote();
+		if (note) {
+			entries = entries.concat(
+				parseLexiconNote(await this.app.vault.cachedRead(note))
+			);
+		}
+		this.pronunciations = compileLexicon(entries);
+	}
+
 	async loadSettings() {
 		this.settings = Object.assign(
 			{},
 			DEFAULT_SETTINGS,
 			await this.loadData()
 		);
+		// Lists are edited in place, so they must not be the defaults' own
+		this.settings.fallbackServices = this.settings.fallbackServices.slice();
+		this.settings.languageVoices = this.settings.languageVoices.map(
+			(mapping) => ({ ...mapping })
+		);
+		this.settings.lexicon = this.settings.lexicon.map((entry) => ({
+			...entry,
+		}));
+		this.settings.apiKeys = { ...this.settings.apiKeys };
+		// API keys used to be saved in data.json
+		if (this.secrets.migrate(this.settings)) await this.saveSettings();
 	}
 
 	async saveSettings() {
@@ -927,93 +2699,10 @@ export default class TextToSpeechPlugin extends Plugin {
 	}
 
 	async getAvailableVoices(): Promise<Array<{ id: string; name: string }>> {
-		switch (this.settings.voiceService) {
-			case "system":
-				// Get system voices
-				const sysVoices = this.speechSynthesis.getVoices();
-				return sysVoices.map((voice) => ({
-					id: voice.voiceURI,
-					name: voice.name,
-				}));
-
-			case "elevenlabs":
-				// Eleven Labs voices
-				if (!this.settings.elevenLabsApiKey) {
-					return [
-						{
-							id: "eleven-default",
-							name: "Eleven Labs API Key Required",
-						},
-					];
-				}
-				return [
-					{
-						id: "21m00Tcm4TlvDq8ikWAM",
-						name: "Rachel (Warm and Professional)",
-					},
-					{
-						id: "AZnzlk1XvdvUeBnXmlld",
-						name: "Domi (Strong and Energetic)",
-					},
-					{
-						id: "EXAVITQu4vr4xnSDxMaL",
-						name: "Bella (Soft and Gentle)",
-					},
-					{
-						id: "ErXwobaYiN019PkySvjV",
-						name: "Antoni (Well-Rounded)",
-					},
-					{
-						id: "MF3mGyEYCl7XYWbV9V6O",
-						name: "Elli (Approachable and Friendly)",
-					},
-					{
-						id: "TxGEqnHWrfWFTfGW9XjX",
-						name: "Josh (Deep and Clear)",
-					},
-					{
-						id: "VR6AewLTigWG4xSOukaG",
-						name: "Arnold (Confident and Rugged)",
-					},
-					{
-						id: "pNInz6obpgDQGcFmaJgB",
-						name: "Adam (Professional and Engaging)",
-					},
-					{
-						id: "yoZ06aMxZJJ28mfd3POQ",
-						name: "Sam (Serious and Grounded)",
-					},
-					{
-						id: "jsCqWAovK2LkecY7zXl4",
-						name: "Emily (Warm and Engaging)",
-					},
-				];
-
-			case "openai":
-				// OpenAI TTS voices
-				if (!this.settings.openAIApiKey) {
-					return [
-						{
-							id: "openai-default",
-							name: "OpenAI API Key Required",
-						},
-					];
-				}
-				return [
-					{ id: "alloy", name: "Alloy (Neutral)" },
-					{ id: "echo", name: "Echo (Warm)" },
-					{ id: "fable", name: "Fable (Expressive)" },
-					{ id: "onyx", name: "Onyx (Deep)" },
-					{ id: "nova", name: "Nova (Friendly)" },
-					{ id: "shimmer", name: "Shimmer (Clear)" },
-				];
-
-			default:
-				return [{ id: "default", name: "Default System Voice" }];
-		}
+		return this.getActiveProvider().getVoices();
 	}
 
-	private async skipToParagraph(direction: "next" | "previous") {
+	async skipToParagraph(direction: "next" | "previous") {
 		if (!this.speaking) return;
 
 		const oldIndex = this.currentParagraphIndex;
@@ -1036,51 +2725,19 @@ export default class TextToSpeechPlugin extends Plugin {
 		this.clearHighlights();
 
 		// Cancel current speech
-		if (this.settings.voiceService === "system") {
-			this.speechSynthesis.cancel();
-		} else if (this.currentAudio) {
-			this.currentAudio.pause();
-			this.currentAudio = null;
-		}
+		this.stopCurrentSpeech();
 
 		// Make sure the speech synthesis is completely reset
 		return new Promise<void>((resolve) => {
 			const checkSpeechSynthesis = () => {
 				if (!this.speechSynthesis.speaking) {
-					const view =
-						this.app.workspace.getActiveViewOfType(MarkdownView);
-					if (!view) return;
-
-					const editor = view.editor;
-					const text = editor.getValue();
-
-					// Calculate the absolute position of each paragraph
-					let offset = 0;
-					const paragraphPositions: {
-						start: number;
-						end: number;
-						text: string;
-					}[] = [];
-
-					// Split text by paragraphs and track positions
-					const allParagraphs = text.split(/\n\s*\n/);
-					for (let i = 0; i < allParagraphs.length; i++) {
-						const paragraphText = allParagraphs[i];
-						paragraphPositions.push({
-							start: offset,
-							end: offset + paragraphText.length,
-							text: paragraphText,
-						});
-						// Add length of paragraph and the double newline separator
-						offset +=
-							paragraphText.length +
-							(i < allParagraphs.length - 1 ? 2 : 0);
-					}
-
 					// Get the current paragraph's position
-					const currentParagraph =
-						paragraphPositions[this.currentParagraphIndex];
-					if (!currentParagraph) {
+					const currentParagraph = this.findParagraphPosition(
+						this.currentParagraphIndex
+					);
+					const paragraphText =
+						this.paragraphs[this.currentParagraphIndex];
+					if (paragraphText === undefined) {
 						console.error(
 							"Invalid paragraph index:",
 							this.currentParagraphIndex
@@ -1092,48 +2749,24 @@ export default class TextToSpeechPlugin extends Plugin {
 						index: this.currentParagraphIndex,
 						start: currentParagraph.start,
 						end: currentParagraph.end,
-						text: currentParagraph.text.substring(0, 50) + "...",
+						text: paragraphText.substring(0, 50) + "...",
 					});
 
 					// Start word highlighting for the new paragraph
-					if (
-						this.settings.highlightEnabled &&
-						this.settings.highlightWord
-					) {
+					if (this.isFollowingWords()) {
 						// Initial highlight of the first word
-						const firstWord = currentParagraph.text.match(/^\S+/);
+						const firstWord = paragraphText.match(/^\S+/);
 						if (firstWord) {
 							this.highlightWord(
 								this.currentParagraphIndex,
 								0,
-								firstWord[0].length,
-								currentParagraph.start
+								firstWord[0].length
 							);
 						}
-
-						// Start word highlighting for the new paragraph
-						this.startWordHighlighting(
-							currentParagraph.text,
-							currentParagraph.start
-						);
 					}
 
 					// Start speaking from the new paragraph
-					const remainingText = this.paragraphs
-						.slice(this.currentParagraphIndex)
-						.join("\n\n");
-
-					switch (this.settings.voiceService) {
-						case "system":
-							this.speakWithSystem(remainingText);
-							break;
-						case "elevenlabs":
-							this.speakWithElevenLabs(remainingText);
-							break;
-						case "openai":
-							this.speakWithOpenAI(remainingText);
-							break;
-					}
+					this.speakFrom(this.currentParagraphIndex);
 					resolve();
 				} else {
 					setTimeout(checkSpeechSynthesis, 50);
@@ -1143,262 +2776,471 @@ export default class TextToSpeechPlugin extends Plugin {
 		});
 	}
 
-	private startWordHighlighting(text: string, paragraphStart: number) {
-		// Clear any existing word highlighting
-		if (this.currentWordEl) {
-			this.currentWordEl.clear();
+	/**
+	 * Seeks when a word of the note being read is clicked with Cmd (Mac)
+	 * or Ctrl held down. Links keep their usual modifier-click behaviour.
+	 */
+	private handleSeekClick(evt: MouseEvent) {
+		if (!this.speaking || this.isLoading) return;
+		if (evt.button !== 0 || !(evt.metaKey || evt.ctrlKey)) return;
+
+		const target = evt.target as HTMLElement;
+		if (target.closest("a, .cm-hmd-internal-link, .cm-link, .cm-url")) {
+			return;
 		}
 
-		// Store the current paragraph index to ensure it doesn't change during highlighting
-		const currentParagraphIndex = this.currentParagraphIndex;
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (
+			!view ||
+			view.file?.path !== this.readingPath ||
+			!view.contentEl.contains(target)
+		) {
+			return;
+		}
 
-		// Split text into words and get their exact positions
-		const words: { word: string; start: number; length: number }[] = [];
-		let pos = 0;
+		const position =
+			view.getMode() === "preview"
+				? this.findClickInReadingView(view, evt)
+				: this.findClickInEditor(view, evt);
+		if (!position) return;
 
-		// Process the text character by character to get exact word positions
-		let currentWord = "";
-		let wordStart = 0;
+		evt.preventDefault();
+		evt.stopPropagation();
+		this.seekTo(position.paragraphIndex, position.offset);
+	}
 
-		// Skip leading whitespace
-		while (pos < text.length && /\s/.test(text[pos])) {
-			pos++;
-		}
-		wordStart = pos;
+	private findClickInEditor(
+		view: MarkdownView,
+		evt: MouseEvent
+	): { paragraphIndex: number; offset: number } | null {
+		const editorView = getEditorView(view.editor);
+		const sourceOffset = editorView?.posAtCoords({
+			x: evt.clientX,
+			y: evt.clientY,
+		});
+		if (sourceOffset === null || sourceOffset === undefined) return null;
+		return this.spokenPositionAt(sourceOffset);
+	}
 
-		for (let i = pos; i < text.length; i++) {
-			const char = text[i];
-			if (/\s/.test(char)) {
-				if (currentWord) {
-					words.push({
-						word: currentWord,
-						start: wordStart,
-						length: currentWord.length,
-					});
-					currentWord = "";
-				}
-				// Skip consecutive whitespace
-				while (i + 1 < text.length && /\s/.test(text[i + 1])) {
-					i++;
+	/**
+	 * Finds the word at, or else the first word after, source offset
+	 * `sourceOffset` among the chunks being read.
+	 */
+	private spokenPositionAt(
+		sourceOffset: number
+	): { paragraphIndex: number; offset: number } | null {
+		const paragraphIndex = this.chunks.findIndex(
+			(chunk) => sourceOffset < chunk.to
+		);
+		if (paragraphIndex === -1) return null;
+
+		// Start at the beginning of the word
+		const { text, offsets } = this.chunks[paragraphIndex];
+		let offset = offsets.findIndex((source) => source >= sourceOffset);
+		if (offset === -1) offset = offsets.length - 1;
+		while (offset > 0 && /\S/.test(text[offset - 1])) offset--;
+		return { paragraphIndex, offset: Math.max(offset, 0) };
+	}
+
+	/** Spoken offset of the word being read in the current paragraph */
+	private getCurrentSpokenOffset(): number {
+		const text = this.paragraphs[this.currentParagraphIndex];
+		if (!this.speaking || text === undefined) return 0;
+
+		if (this.activeProvider?.kind === "utterance") {
+			return this.utteranceOffset;
+		}
+		if (
+			this.currentAudio &&
+			this.currentSegment &&
+			!this.currentAudio.ended
+		) {
+			const timings = this.getSegmentTimings(
+				this.currentSegment,
+				this.currentTimings,
+				this.currentAudio.duration
+			);
+			return (
+				findWordAt(timings, this.currentAudio.currentTime)?.start ?? 0
+			);
+		}
+		return 0;
+	}
+
+	/** Source offset of the word being read, or null when not reading */
+	private getCurrentSourceOffset(): number | null {
+		const chunk = this.chunks[this.currentParagraphIndex];
+		if (!this.speaking || !chunk) return null;
+		return chunk.offsets[this.getCurrentSpokenOffset()] ?? chunk.from;
+	}
+
+	/** Saves where reading is, so the note can be resumed later */
+	private rememberPosition() {
+		const offset = this.getCurrentSourceOffset();
+		if (!this.readingPath || offset === null) return;
+		this.listening.setPosition(this.readingPath, offset);
+	}
+
+	/** A note read to the end starts from the top next time */
+	private forgetFinishedNote() {
+		if (this.readingPath && this.readingToEnd) {
+			this.listening.clearPosition(this.readingPath);
+		}
+	}
+
+	/**
+	 * Starts reading the note in `view`. When reading stopped part way
+	 * through last time, offers to resume there instead.
+	 */
+	private async playNote(view: MarkdownView, evt: MouseEvent) {
+		const position =
+			view.file && (await this.listening.getPosition(view.file.path));
+		if (!position) {
+			await this.speakText(view.getViewData(), { path: view.file?.path });
+			return;
+		}
+
+		const menu = new Menu();
+		menu.addItem((item) =>
+			item
+				.setTitle("Resume from where you left off")
+				.setIcon("play")
+				.onClick(() => this.resumeReading(view))
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Start from the beginning")
+				.setIcon("rotate-ccw")
+				.onClick(() =>
+					this.speakText(view.getViewData(), {
+						path: view.file?.path,
+					})
+				)
+		);
+		menu.showAtMouseEvent(evt);
+	}
+
+	async resumeReading(view: MarkdownView) {
+		const position =
+			view.file && (await this.listening.getPosition(view.file.path));
+		this.stopPlayback();
+		await this.speakText(view.getViewData(), {
+			startAt: position ? position.offset : 0,
+			path: view.file?.path,
+		});
+	}
+
+	/** Bookmarks the word being read in the note being read */
+	private addBookmark() {
+		const path = this.readingPath;
+		const offset = this.getCurrentSourceOffset();
+		const position = offset === null ? null : this.spokenPositionAt(offset);
+		if (!path || offset === null || !position) {
+			new Notice("Start reading a note to bookmark a position in it");
+			return;
+		}
+
+		const excerpt = this.paragraphs[position.paragraphIndex]
+			.substring(position.offset)
+			.split(/\s+/)
+			.slice(0, 8)
+			.join(" ");
+		this.listening.getBookmarks(path).then((bookmarks) => {
+			new BookmarkNameModal(
+				this.app,
+				`Bookmark ${bookmarks.length + 1}`,
+				async (name) => {
+					await this.listening.addBookmark(path, {
+						name,
+						offset,
+						excerpt,
+						created: Date.now(),
+					});
+					new Notice(`Added bookmark "${name}"`);
+				}
+			).open();
+		});
+	}
+
+	/** Lets the user pick one of the active note's bookmarks */
+	private async chooseBookmark(
+		view: MarkdownView,
+		onChoose: (bookmark: Bookmark) => void
+	) {
+		if (!view.file) return;
+		const bookmarks = await this.listening.getBookmarks(view.file.path);
+		if (bookmarks.length === 0) {
+			new Notice("This note has no listening bookmarks");
+			return;
+		}
+		new BookmarkSuggestModal(this.app, bookmarks, onChoose).open();
+	}
+
+	/** Index of the heading the current paragraph falls under, or -1 */
+	private currentHeadingIndex(): number {
+		for (let i = this.currentParagraphIndex; i >= 0; i--) {
+			const chunk = this.chunks[i];
+			// Queue announcements are headings of level 0
+			if (chunk?.kind === "heading" && chunk.level > 0) return i;
+		}
+		return -1;
+	}
+
+	/**
+	 * Moves to the next or previous heading at the same or a higher level
+	 * than the current section's. Going back from within a section first
+	 * returns to its own heading.
+	 */
+	async skipToHeading(direction: "next" | "previous") {
+		if (!this.speaking || this.isLoading) return;
+
+		const current = this.currentHeadingIndex();
+		// Before the first heading, any heading ends the section
+		const level = current === -1 ? 6 : this.chunks[current].level;
+		const isSectionStart = (chunk: SpeechChunk) =>
+			chunk.kind === "heading" && chunk.level > 0 && chunk.level <= level;
+
+		let target = -1;
+		if (direction === "next") {
+			for (
+				let i = this.currentParagraphIndex + 1;
+				i < this.chunks.length;
+				i++
+			) {
+				if (isSectionStart(this.chunks[i])) {
+					target = i;
+					break;
+				}
+			}
+		} else if (current !== -1 && current < this.currentParagraphIndex) {
+			target = current;
+		} else {
+			for (let i = current - 1; i >= 0; i--) {
+				if (isSectionStart(this.chunks[i])) {
+					target = i;
+					break;
 				}
-				wordStart = i + 1;
-			} else {
-				currentWord += char;
 			}
 		}
 
-		// Add the last word if exists
-		if (currentWord) {
-			words.push({
-				word: currentWord,
-				start: wordStart,
-				length: currentWord.length,
-			});
+		if (target === -1) {
+			new Notice(
+				direction === "next"
+					? "This is the last section"
+					: "This is the first section"
+			);
+			return;
+		}
+		this.announceSection(this.chunks[target].text);
+		await this.seekTo(target, 0);
+	}
+
+	/** Shows which section reading moved to; the heading is read out too */
+	private announceSection(heading: string) {
+		new Notice(`Section: ${heading}`, 2000);
+	}
+
+	/** The note being read, or else the active note */
+	private getSectionNote(): TFile | null {
+		const file =
+			this.speaking && this.readingPath
+				? this.app.vault.getAbstractFileByPath(this.readingPath)
+				: this.app.workspace.getActiveFile();
+		return file instanceof TFile && file.extension === "md" ? file : null;
+	}
+
+	/** Lets the user pick one of the note's headings to read from */
+	private chooseSection(file: TFile) {
+		const headings = this.app.metadataCache.getFileCache(file)?.headings;
+		if (!headings || headings.length === 0) {
+			new Notice("This note has no headings");
+			return;
+		}
+		new SectionSuggestModal(this.app, headings, (heading) =>
+			this.jumpToSection(file, heading)
+		).open();
+	}
+
+	/** Continues reading at `heading`, starting the note if needed */
+	private async jumpToSection(file: TFile, heading: HeadingCache) {
+		const offset = heading.position.start.offset;
+		this.announceSection(heading.heading);
+		if (this.speaking && file.path === this.readingPath) {
+			const position = this.spokenPositionAt(offset);
+			if (position) {
+				await this.seekTo(position.paragraphIndex, position.offset);
+				return;
+			}
+		}
+		this.stopPlayback();
+		await this.speakText(await this.app.vault.cachedRead(file), {
+			startAt: offset,
+			path: file.path,
+		});
+	}
+
+	/** Continues reading at `bookmark`, starting the note if needed */
+	private async jumpToBookmark(view: MarkdownView, bookmark: Bookmark) {
+		if (this.speaking && view.file?.path === this.readingPath) {
+			const position = this.spokenPositionAt(bookmark.offset);
+			if (position) {
+				await this.seekTo(position.paragraphIndex, position.offset);
+				return;
+			}
+		}
+		this.stopPlayback();
+		await this.speakText(view.getViewData(), { startAt: bookmark.offset });
+	}
+
+	private findClickInReadingView(
+		view: MarkdownView,
+		evt: MouseEvent
+	): { paragraphIndex: number; offset: number } | null {
+		const caret = document.caretRangeFromPoint(evt.clientX, evt.clientY);
+		const block = caret && getBlockLines(caret.startContainer);
+		if (!caret || !block) return null;
+
+		const paragraphIndex = this.chunks.findIndex((chunk) => {
+			const lines = this.chunkLines(chunk);
+			return (
+				lines.lineStart <= block.lineEnd &&
+				lines.lineEnd >= block.lineStart
+			);
+		});
+		if (paragraphIndex === -1) return null;
+
+		const chunk = this.chunks[paragraphIndex];
+		const offset = this.readingHighlighter.spokenOffsetAt(
+			view.previewMode.containerEl,
+			{ kind: "word", ...this.chunkLines(chunk), blockText: chunk.text },
+			caret.startContainer,
+			caret.startOffset
+		);
+		return offset === null ? null : { paragraphIndex, offset };
+	}
+
+	/**
+	 * Continues playback from spoken offset `offset` of paragraph
+	 * `paragraphIndex`. Within the clip that is playing this only moves
+	 * the playhead; otherwise the paragraph is started part way through.
+	 */
+	async seekTo(paragraphIndex: number, offset: number) {
+		this.followPaused = false;
+		const segment = this.currentSegment;
+		if (
+			this.activeProvider?.kind === "audio" &&
+			this.currentAudio &&
+			segment &&
+			this.segments[this.findSegment(paragraphIndex, offset)] === segment
+		) {
+			const timings = this.currentTimings;
+			this.seekAudio(
+				this.currentAudio,
+				(duration) =>
+					this.getSegmentTimings(segment, timings, duration),
+				offset
+			);
+			if (this.currentAudio.paused) await this.currentAudio.play();
+			return;
 		}
 
-		let currentIndex = 0;
-		let lastTimestamp = 0;
-		let isPaused = false;
+		this.clearHighlights();
+		this.stopCurrentSpeech();
+		this.currentParagraphIndex = paragraphIndex;
+		await this.speakFrom(paragraphIndex, offset);
+	}
 
+	/**
+	 * Highlights each word of an audio clip as it is spoken. Follows the
+	 * clip's own playback position, so pauses and seeking keep it in sync.
+	 */
+	private startWordHighlighting(
+		paragraphIndex: number,
+		audio: HTMLAudioElement,
+		getTimings: (duration: number) => WordTiming[]
+	) {
 		// Clear any existing interval
 		if (this.wordHighlightInterval !== null) {
 			window.cancelAnimationFrame(this.wordHighlightInterval);
 			this.wordHighlightInterval = null;
 		}
 
-		// Calculate average word duration based on text length and playback speed
-		const averageWordDuration =
-			(text.length / words.length) * (60 / this.settings.playbackSpeed);
+		const session = this.playbackSession;
+		let timings: WordTiming[] = [];
+		let lastWord: WordTiming | null = null;
 
-		// Create an animation frame loop for smoother timing
-		const updateHighlight = (timestamp: number) => {
-			// Check if we're still on the same paragraph
+		const updateHighlight = () => {
+			// Stop once playback moved on to another clip
 			if (
 				!this.speaking ||
-				currentIndex >= words.length ||
-				this.currentParagraphIndex !== currentParagraphIndex
+				session !== this.playbackSession ||
+				this.currentParagraphIndex !== paragraphIndex ||
+				audio.ended
 			) {
 				this.wordHighlightInterval = null;
 				return;
 			}
 
-			// Check if audio is paused
-			const isAudioPaused =
-				this.settings.voiceService === "system"
-					? this.speechSynthesis.paused
-					: this.currentAudio?.paused;
-
-			if (isAudioPaused) {
-				// If just paused, store the state
-				if (!isPaused) {
-					isPaused = true;
-					lastTimestamp = timestamp;
-				}
-			} else {
-				// If just resumed, adjust the last timestamp
-				if (isPaused) {
-					isPaused = false;
-					lastTimestamp = timestamp - (timestamp - lastTimestamp);
-				}
-
-				// Only update highlighting if not paused
-				if (
-					!isPaused &&
-					timestamp - lastTimestamp >= averageWordDuration
-				) {
-					const word = words[currentIndex];
-
-					// Calculate the absolute position in the document
-					const absolutePosition = paragraphStart + word.start;
-
-					console.log(`[Debug] Highlighting word in paragraph:`, {
-						paragraphIndex: currentParagraphIndex,
-						paragraphStart,
-						word: word.word,
-						wordStart: word.start,
-						absolutePosition,
-					});
-
-					this.highlightWord(
-						currentParagraphIndex,
-						word.start,
-						word.length,
-						paragraphStart
-					);
+			// The duration is only known once the clip has loaded
+			if (timings.length === 0 && isFinite(audio.duration)) {
+				timings = getTimings(audio.duration);
+			}
 
-					currentIndex++;
-					lastTimestamp = timestamp;
-				}
+			const word = findWordAt(timings, audio.currentTime);
+			if (word && word !== lastWord) {
+				lastWord = word;
+				this.highlightWord(paragraphIndex, word.start, word.length);
 			}
 
-			// Continue the animation frame loop
 			this.wordHighlightInterval =
 				window.requestAnimationFrame(updateHighlight);
 		};
 
-		// Start the animation frame loop
 		this.wordHighlightInterval =
 			window.requestAnimationFrame(updateHighlight);
 	}
 
 	async testSelectedVoice() {
 		const sampleText = "This is a test of the selected voice.";
+		const provider = this.getActiveProvider();
 
-		switch (this.settings.voiceService) {
-			case "system":
-				const utterance = new SpeechSynthesisUtterance(sampleText);
-				const voices = this.speechSynthesis.getVoices();
-				const selectedVoice = voices.find(
-					(v) => v.voiceURI === this.settings.playbackVoice
-				);
-				if (selectedVoice) {
-					utterance.voice = selectedVoice;
-					utterance.rate = this.settings.playbackSpeed;
-					utterance.pitch = this.settings.pitch;
-					utterance.volume = this.settings.volume;
-					this.speechSynthesis.speak(utterance);
-				}
-				break;
-
-			case "openai":
-				if (!this.settings.openAIApiKey) {
-					new Notice("Please enter your OpenAI API key first");
-					return;
-				}
-				new Notice("Testing OpenAI voice...");
-				try {
-					const response = await fetch(
-						"https://api.openai.com/v1/audio/speech",
-						{
-							method: "POST",
-							headers: {
-								Authorization: `Bearer ${this.settings.openAIApiKey}`,
-								"Content-Type": "application/json",
-							},
-							body: JSON.stringify({
-								model: "tts-1",
-								voice: this.settings.playbackVoice,
-								input: sampleText,
-							}),
-						}
-					);
-
-					if (!response.ok) {
-						throw new Error(
-							`HTTP error! status: ${response.status}`
-						);
-					}
-
-					const audioBlob = await response.blob();
-					const audioUrl = URL.createObjectURL(audioBlob);
-					const audio = new Audio(audioUrl);
-					audio.play();
-
-					// Clean up the URL after playing
-					audio.onended = () => URL.revokeObjectURL(audioUrl);
-				} catch (error) {
-					console.error("Error testing OpenAI voice:", error);
-					new Notice(
-						"Error testing OpenAI voice. Check console for details."
-					);
-				}
-				break;
+		const configurationProblem = provider.checkConfiguration();
+		if (configurationProblem) {
+			new Notice(configurationProblem);
+			return;
+		}
 
-			case "elevenlabs":
-				if (!this.settings.elevenLabsApiKey) {
-					new Notice("Please enter your Eleven Labs API key first");
-					return;
-				}
-				new Notice("Testing Eleven Labs voice...");
-				try {
-					const response = await fetch(
-						`https://api.elevenlabs.io/v1/text-to-speech/${this.settings.playbackVoice}`,
-						{
-							method: "POST",
-							headers: {
-								"Content-Type": "application/json",
-								"xi-api-key": this.settings.elevenLabsApiKey,
-							},
-							body: JSON.stringify({
-								text: sampleText,
-								model_id: "eleven_monolingual_v1",
-								voice_settings: {
-									stability: 0.5,
-									similarity_boost: 0.75,
-									speed: this.settings.playbackSpeed,
-								},
-							}),
-						}
-					);
+		const request = {
+			text: sampleText,
+			voice: this.settings.playbackVoice,
+			speed: this.settings.playbackSpeed,
+		};
 
-					if (!response.ok) {
-						throw new Error(
-							`HTTP error! status: ${response.status}`
-						);
-					}
+		if (provider.kind === "utterance") {
+			this.speechSynthesis.speak(provider.createUtterance(request));
+			return;
+		}
 
-					const audioBlob = await response.blob();
-					const audioUrl = URL.createObjectURL(audioBlob);
-					const audio = new Audio(audioUrl);
-					audio.play();
+		new Notice(`Testing ${provider.name} voice...`);
+		try {
+			// Metered and capped like reading, and cached for the next test
+			const speed = this.getSynthesisSpeed(provider, request.speed);
+			const { audio: audioBlob } = await this.synthesizeCached(provider, {
+				...request,
+				speed,
+			});
+			const audioUrl = URL.createObjectURL(audioBlob);
+			const audio = new Audio(audioUrl);
+			audio.playbackRate = request.speed / speed;
+			audio.play();
 
-					// Clean up the URL after playing
-					audio.onended = () => URL.revokeObjectURL(audioUrl);
-				} catch (error) {
-					console.error("Error testing Eleven Labs voice:", error);
-					new Notice(
-						"Error testing Eleven Labs voice. Check console for details."
-					);
-				}
-				break;
+			// Clean up the URL after playing
+			audio.onended = () => URL.revokeObjectURL(audioUrl);
+		} catch (error) {
+			console.error(`Error testing ${provider.name} voice:`, error);
+			new Notice(describeError(error, provider.name));
 		}
 	}
-
-	getDefaultSystemVoice(): string {
-		const voices = this.speechSynthesis.getVoices();
-		const defaultVoice = voices.find((v) => v.default) || voices[0];
-		return defaultVoice?.voiceURI || "default";
-	}
 }
 
 class SampleModal extends Modal {
@@ -1432,40 +3274,31 @@ class TextToSpeechSettingTab extends PluginSettingTab {
 		// Voice Service Section
 		containerEl.createEl("h3", { text: "Voice Service" });
 
+		const serviceOptions: Record<string, string> = {};
+		this.plugin.providers.list().forEach((provider) => {
+			serviceOptions[provider.id] = provider.name;
+		});
+
 		new Setting(containerEl)
 			.setName("Default Voice Service")
 			.setDesc(
-				"Choose which service to use for text-to-speech. 'System Native' uses your operating system's built-in voices (Windows, macOS, or Linux), while Eleven Labs and OpenAI provide high-quality AI voices (requires API key)."
+				"Choose which service to use for text-to-speech. 'System Native' uses your operating system's built-in voices (Windows, macOS, or Linux), while Eleven Labs and OpenAI provide high-quality AI voices (requires API key). 'OpenAI-Compatible Server' talks to a self-hosted server such as Kokoro, and 'Piper' runs a locally installed Piper binary fully offline."
 			)
 			.addDropdown((dropdown) =>
 				dropdown
-					.addOptions({
-						system: "System Native",
-						elevenlabs: "Eleven Labs",
-						openai: "OpenAI",
-					})
-					.setValue(this.plugin.settings.voiceService)
+					.addOptions(serviceOptions)
+					.setValue(this.plugin.getActiveProvider().id)
 					.onChange(async (value) => {
-						const newService = value as
-							| "system"
-							| "elevenlabs"
-							| "openai";
-						this.plugin.settings.voiceService = newService;
+						this.plugin.settings.voiceService = value;
+						this.plugin.settings.fallbackServices =
+							this.plugin.settings.fallbackServices.filter(
+								(id) => id !== value
+							);
 
 						// Set default voice based on service
-						switch (newService) {
-							case "openai":
-								this.plugin.settings.playbackVoice = "alloy"; // Default OpenAI voice
-								break;
-							case "elevenlabs":
-								this.plugin.settings.playbackVoice =
-									"21m00Tcm4TlvDq8ikWAM"; // Rachel voice ID
-								break;
-							case "system":
-								this.plugin.settings.playbackVoice =
-									this.plugin.getDefaultSystemVoice();
-								break;
-						}
+						const provider = this.plugin.getActiveProvider();
+						this.plugin.settings.playbackVoice =
+							provider.getDefaultVoice();
 
 						await this.plugin.saveSettings();
 						// Refresh available voices when service changes
@@ -1473,37 +3306,49 @@ class TextToSpeechSettingTab extends PluginSettingTab {
 					})
 			);
 
-		// Add API Key fields based on selected service
-		if (this.plugin.settings.voiceService === "elevenlabs") {
-			new Setting(containerEl)
-				.setName("Eleven Labs API Key")
-				.setDesc("Enter your Eleven Labs API key")
-				.addText((text) =>
-					text
-						.setPlaceholder("Enter API key")
-						.setValue(this.plugin.settings.elevenLabsApiKey)
-						.onChange(async (value) => {
-							this.plugin.settings.elevenLabsApiKey = value;
-							await this.plugin.saveSettings();
-						})
-				);
-		}
+		// Add the selected service's own settings (API keys and the like)
+		const provider = this.plugin.getActiveProvider();
+		provider.displaySettings(containerEl, () => this.display());
 
-		if (this.plugin.settings.voiceService === "openai") {
-			new Setting(containerEl)
-				.setName("OpenAI API Key")
-				.setDesc(
-					"Enter your OpenAI API key. You can find or create your API key at https://platform.openai.com/api-keys"
-				)
-				.addText((text) =>
-					text
-						.setPlaceholder("Enter API key")
-						.setValue(this.plugin.settings.openAIApiKey)
-						.onChange(async (value) => {
-							this.plugin.settings.openAIApiKey = value;
-							await this.plugin.saveSettings();
-						})
-				);
+		// One dropdown per fallback, and one more to add another
+		const fallbacks = this.plugin.settings.fallbackServices;
+		for (let i = 0; i <= fallbacks.length; i++) {
+			const used = [this.plugin.settings.voiceService].concat(
+				fallbacks.slice(0, i)
+			);
+			const options: Record<string, string> = {
+				"": i < fallbacks.length ? "None" : "Add a fallback...",
+			};
+			this.plugin.providers.list().forEach((candidate) => {
+				if (used.indexOf(candidate.id) === -1) {
+					options[candidate.id] = candidate.name;
+				}
+			});
+			if (Object.keys(options).length === 1) break;
+
+			const setting = new Setting(containerEl).addDropdown((dropdown) =>
+				dropdown
+					.addOptions(options)
+					.setValue(fallbacks[i] ?? "")
+					.onChange(async (value) => {
+						// Choosing a service moves it here from further down
+						const others = fallbacks.filter(
+							(id, j) => j !== i && id !== value
+						);
+						this.plugin.settings.fallbackServices = value
+							? others.slice(0, i).concat(value, others.slice(i))
+							: others;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+			if (i === 0) {
+				setting
+					.setName("Fallback Voice Services")
+					.setDesc(
+						"When the voice service fails, for example because its quota is used up or it cannot be reached, reading continues from the same paragraph with the next service in this list. Fallback services read with their default voice."
+					);
+			}
 		}
 
 		// Playback Settings Section
@@ -1560,6 +3405,58 @@ class TextToSpeechSettingTab extends PluginSettingTab {
 				return button;
 			});
 
+		// Pitch, for services that support it
+		if (provider.capabilities.pitch) {
+			new Setting(containerEl)
+				.setName("Pitch")
+				.setDesc("Adjust the voice pitch")
+				.addSlider((slider) =>
+					slider
+						.setLimits(0.5, 2, 0.1)
+						.setValue(this.plugin.settings.pitch)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.pitch = value;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		// Prefetching, for services that return audio clips
+		if (provider.kind === "audio") {
+			new Setting(containerEl)
+				.setName("Prefetch Paragraphs")
+				.setDesc(
+					"How many upcoming paragraphs to generate while the current one plays. Higher values remove pauses between paragraphs but use more requests when you skip around."
+				)
+				.addSlider((slider) =>
+					slider
+						.setLimits(0, 5, 1)
+						.setValue(this.plugin.settings.prefetchCount)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.prefetchCount = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Parallel Requests")
+				.setDesc(
+					"Maximum number of paragraphs generated at the same time"
+				)
+				.addSlider((slider) =>
+					slider
+						.setLimits(1, 4, 1)
+						.setValue(this.plugin.settings.prefetchConcurrency)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.prefetchConcurrency = value;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
 		// Volume control
 		new Setting(containerEl)
 			.setName("Volume")
@@ -1575,6 +3472,437 @@ class TextToSpeechSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Announce Queued Notes")
+			.setDesc(
+				"Read each note's title before it when reading several notes in a row"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.queueAnnounceTitles)
+					.onChange(async (value) => {
+						this.plugin.settings.queueAnnounceTitles = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Languages Section
+		containerEl.createEl("h3", { text: "Languages" });
+
+		new Setting(containerEl)
+			.setName("Detect Language")
+			.setDesc(
+				"Guess the language of notes without a tts-language property, and of each paragraph, so text in another language is read with a voice for it"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.detectLanguage)
+					.onChange(async (value) => {
+						this.plugin.settings.detectLanguage = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const languageVoices = this.plugin.settings.languageVoices;
+		new Setting(containerEl)
+			.setName("Language Voices")
+			.setDesc(
+				"The service and voice to read each language with, e.g. 'de' or 'ja'. Paragraphs switch voices within a note when both services are system voices or both return audio."
+			)
+			.addButton((button) =>
+				button.setButtonText("Add language").onClick(async () => {
+					languageVoices.push({
+						language: "",
+						service: this.plugin.settings.voiceService,
+						voice: this.plugin.settings.playbackVoice,
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		languageVoices.forEach((mapping, i) => {
+			new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder("Language, e.g. de")
+						.setValue(mapping.language)
+						.onChange(async (value) => {
+							mapping.language = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions(serviceOptions)
+						.setValue(mapping.service)
+						.onChange(async (value) => {
+							mapping.service = value;
+							mapping.voice =
+								this.plugin.providers
+									.get(value)
+									?.getDefaultVoice() ?? "";
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				)
+				.addDropdown(async (dropdown) => {
+					const voices =
+						(await this.plugin.providers
+							.get(mapping.service)
+							?.getVoices()) ?? [];
+					voices.forEach((voice) => {
+						dropdown.addOption(voice.id, voice.name);
+					});
+					dropdown.setValue(mapping.voice).onChange(async (value) => {
+						mapping.voice = value;
+						await this.plugin.saveSettings();
+					});
+				})
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove")
+						.onClick(async () => {
+							languageVoices.splice(i, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		// Pronunciation Section
+		containerEl.createEl("h3", { text: "Pronunciation" });
+
+		new Setting(containerEl)
+			.setName("Lexicon Note")
+			.setDesc(
+				"A note listing more pronunciations, one per list item ('- kubectl: cube control') or table row"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Pronunciations")
+					.setValue(this.plugin.settings.lexiconNote)
+					.onChange(async (value) => {
+						this.plugin.settings.lexiconNote = value;
+						await this.plugin.saveSettings();
+						await this.plugin.loadPronunciations();
+					})
+			);
+
+		const lexicon = this.plugin.settings.lexicon;
+		new Setting(containerEl)
+			.setName("Pronunciations")
+			.setDesc(
+				"Words to say differently, as a whole word or a /regular expression/. Say them as a respelling, an IPA transcription between slashes for Eleven Labs, or both."
+			)
+			.addButton((button) =>
+				button.setButtonText("Add word").onClick(async () => {
+					lexicon.push({ match: "", say: "" });
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		lexicon.forEach((entry, i) => {
+			new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder("Word or /regex/")
+						.setValue(entry.match)
+						.onChange(async (value) => {
+							entry.match = value;
+							await this.plugin.saveSettings();
+							await this.plugin.loadPronunciations();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Say as, or /IPA/")
+						.setValue(entry.say)
+						.onChange(async (value) => {
+							entry.say = value;
+							await this.plugin.saveSettings();
+							await this.plugin.loadPronunciations();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove")
+						.onClick(async () => {
+							lexicon.splice(i, 1);
+							await this.plugin.saveSettings();
+							await this.plugin.loadPronunciations();
+							this.display();
+						})
+				);
+		});
+
+		// Reading Rules Section
+		containerEl.createEl("h3", { text: "Reading Rules" });
+
+		new Setting(containerEl)
+			.setName("Code Blocks")
+			.setDesc("Choose what happens when the reader reaches a code block")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						skip: "Skip silently",
+						announce: "Announce 'code block'",
+						read: "Read the code",
+					})
+					.setValue(this.plugin.settings.codeBlockMode)
+					.onChange(async (value) => {
+						this.plugin.settings.codeBlockMode = value as
+							| "skip"
+							| "announce"
+							| "read";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Read Link URLs")
+			.setDesc(
+				"Read the address after a link's text. When off, only the link text is read."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.readLinkUrls)
+					.onChange(async (value) => {
+						this.plugin.settings.readLinkUrls = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Read Image Descriptions")
+			.setDesc("Read the alt text of Markdown images")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.readImageAltText)
+					.onChange(async (value) => {
+						this.plugin.settings.readImageAltText = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Read Tags")
+			.setDesc("Read #tags as words instead of skipping them")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.readTags)
+					.onChange(async (value) => {
+						this.plugin.settings.readTags = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Pause Between List Items")
+			.setDesc("End each list item with a short pause")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.listItemPauses)
+					.onChange(async (value) => {
+						this.plugin.settings.listItemPauses = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Audio Cache Section
+		containerEl.createEl("h3", { text: "Audio Cache" });
+
+		new Setting(containerEl)
+			.setName("Cache Generated Audio")
+			.setDesc(
+				"Keep audio from cloud and local voices in the plugin folder, so replaying unchanged paragraphs is instant and free"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.audioCacheEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.audioCacheEnabled = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Cache Size Limit")
+			.setDesc(
+				"Maximum size in MB. The least recently played clips are removed first."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(10, 2000, 10)
+					.setValue(this.plugin.settings.audioCacheLimitMb)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.audioCacheLimitMb = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const cacheStatsSetting = new Setting(containerEl)
+			.setName("Cache Statistics")
+			.setDesc("Loading...")
+			.addButton((button) =>
+				button
+					.setButtonText("Clear cache")
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.audioCache.clear();
+						new Notice("Audio cache cleared");
+						this.display();
+					})
+			);
+
+		this.plugin.audioCache.getStats().then((stats) => {
+			const megabytes = (stats.bytes / (1024 * 1024)).toFixed(1);
+			cacheStatsSetting.setDesc(
+				`${stats.entries} clips, ${megabytes} MB of ${this.plugin.settings.audioCacheLimitMb} MB. This session: ${stats.hits} replayed from cache, ${stats.misses} generated.`
+			);
+		});
+
+		// Usage Section
+		containerEl.createEl("h3", { text: "Usage" });
+
+		const usageEl = containerEl.createDiv();
+		this.plugin.usage.getSummary().then((summary) => {
+			if (summary.length === 0) {
+				new Setting(usageEl)
+					.setName("This Month")
+					.setDesc("Nothing sent to paid voice services yet.");
+				return;
+			}
+			for (const usage of summary) {
+				const provider = this.plugin.providers.get(usage.provider);
+				new Setting(usageEl)
+					.setName(provider?.name ?? usage.provider)
+					.setDesc(
+						`Today: ${usage.today.characters.toLocaleString()} characters, ≈ ${formatCost(
+							usage.today.cost
+						)}. This month: ${usage.month.characters.toLocaleString()} characters, ≈ ${formatCost(
+							usage.month.cost
+						)}.`
+					);
+			}
+		});
+
+		new Setting(containerEl)
+			.setName("Confirm Long Reads")
+			.setDesc(
+				"Ask before reading or exporting more characters than this with a paid voice service, showing the estimated cost. Audio in the cache is not counted. 0 never asks."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("10000")
+					.setValue(String(this.plugin.settings.confirmCharacters))
+					.onChange(async (value) => {
+						const characters = parseInt(value, 10);
+						this.plugin.settings.confirmCharacters =
+							isNaN(characters) || characters < 0
+								? 0
+								: characters;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Monthly Spending Cap")
+			.setDesc(
+				"Estimated US dollars a month across paid voice services. Requests that would go over it are not sent. 0 for no cap."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.monthlySpendingCap))
+					.onChange(async (value) => {
+						const cap = parseFloat(value);
+						this.plugin.settings.monthlySpendingCap =
+							isNaN(cap) || cap < 0 ? 0 : cap;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("When the Cap Is Reached")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						block: "Stop reading",
+						system: "Continue with the system voice",
+					})
+					.setValue(this.plugin.settings.spendingCapAction)
+					.onChange(async (value) => {
+						this.plugin.settings.spendingCapAction = value as
+							| "block"
+							| "system";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Reset Usage")
+			.setDesc(
+				"Costs are estimated from list prices. Your service's own dashboard has what you are billed."
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Reset usage")
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.usage.clear();
+						new Notice("Usage reset");
+						this.display();
+					})
+			);
+
+		// Audio Export Section
+		containerEl.createEl("h3", { text: "Audio Export" });
+
+		new Setting(containerEl)
+			.setName("Export Format")
+			.setDesc(
+				"File type for the 'Export note as audio' command. WAV works with every voice service; MP3 and Opus need a service that can produce them."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						mp3: "MP3",
+						wav: "WAV",
+						opus: "Opus (.ogg)",
+					})
+					.setValue(this.plugin.settings.exportFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.exportFormat =
+							value as AudioFormat;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Link From Note")
+			.setDesc("How the exported file is linked from the note")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						none: "Don't link",
+						embed: "Embed a player at the end of the note",
+						frontmatter: "Add an 'audio' frontmatter property",
+					})
+					.setValue(this.plugin.settings.exportLink)
+					.onChange(async (value) => {
+						this.plugin.settings.exportLink = value as
+							| "none"
+							| "embed"
+							| "frontmatter";
+						await this.plugin.saveSettings();
+					})
+			);
+
 		// Text Highlighting Section
 		containerEl.createEl("h3", { text: "Text Highlighting" });
 
@@ -1614,6 +3942,26 @@ class TextToSpeechSettingTab extends PluginSettingTab {
 						})
 				);
 
+			new Setting(containerEl)
+				.setName("Highlight Sentences")
+				.setDesc("Tint the sentence being spoken")
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.highlightSentence)
+						.onChange(async (value) => {
+							this.plugin.settings.highlightSentence = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addColorPicker((color) =>
+					color
+						.setValue(this.plugin.settings.sentenceColor)
+						.onChange(async (value) => {
+							this.plugin.settings.sentenceColor = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
 			// Add highlight style selector
 			new Setting(containerEl)
 				.setName("Highlight Style")
@@ -1645,6 +3993,20 @@ class TextToSpeechSettingTab extends PluginSettingTab {
 							await this.plugin.saveSettings();
 						})
 				);
+
+			new Setting(containerEl)
+				.setName("Scroll With Reading")
+				.setDesc(
+					"Keep the highlighted text in view. Scrolling, selecting or typing in the note stops this until you start or move playback again."
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.followReading)
+						.onChange(async (value) => {
+							this.plugin.settings.followReading = value;
+							await this.plugin.saveSettings();
+						})
+				);
 		}
 
 		// Add Report Issues Section
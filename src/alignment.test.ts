@@ -0,0 +1,92 @@
+import {
+	estimateWordTimings,
+	findWordAt,
+	fromCharacterAlignment,
+	offsetTimings,
+	timeAtOffset,
+	WordTiming,
+} from "./alignment";
+
+/** Character timings of `text`, a tenth of a second per character */
+function alignmentOf(text: string) {
+	const characters = text.split("");
+	return {
+		characters,
+		character_start_times_seconds: characters.map((_, i) => i / 10),
+		character_end_times_seconds: characters.map((_, i) => (i + 1) / 10),
+	};
+}
+
+describe("fromCharacterAlignment", () => {
+	test("groups character timings into words", () => {
+		expect(
+			fromCharacterAlignment("Hi there", alignmentOf("Hi there"))
+		).toEqual([
+			{ start: 0, length: 2, time: 0, end: 0.2 },
+			{ start: 3, length: 5, time: 0.3, end: 0.8 },
+		]);
+	});
+
+	test("skips characters the service added", () => {
+		const timings = fromCharacterAlignment(
+			"Hi there",
+			alignmentOf("Hi  there")
+		);
+		expect(timings.map((timing) => timing.start)).toEqual([0, 3]);
+		expect(timings[1].time).toBeCloseTo(0.4);
+	});
+
+	test("leaves out words the service dropped", () => {
+		const timings = fromCharacterAlignment("a b c", alignmentOf("a c"));
+		expect(timings.map((timing) => timing.start)).toEqual([0, 4]);
+	});
+});
+
+describe("estimateWordTimings", () => {
+	test("spreads the duration over the words by syllable", () => {
+		const timings = estimateWordTimings("a banana", 4);
+
+		expect(timings.map((timing) => timing.start)).toEqual([0, 2]);
+		expect(timings[0]).toMatchObject({ time: 0, end: 1 });
+		expect(timings[1]).toMatchObject({ time: 1, end: 4 });
+	});
+
+	test("leaves a pause after punctuation", () => {
+		const [first, second] = estimateWordTimings("Stop. Go", 4);
+		expect(second.time - first.end).toBeCloseTo(2);
+	});
+
+	test("gives up without a usable duration or words", () => {
+		expect(estimateWordTimings("Hello", NaN)).toEqual([]);
+		expect(estimateWordTimings("Hello", 0)).toEqual([]);
+		expect(estimateWordTimings("   ", 3)).toEqual([]);
+	});
+});
+
+describe("word lookup", () => {
+	const timings: WordTiming[] = [
+		{ start: 0, length: 3, time: 0, end: 0.5 },
+		{ start: 4, length: 5, time: 0.6, end: 1.2 },
+		{ start: 10, length: 4, time: 1.4, end: 2 },
+	];
+
+	test("findWordAt returns the word spoken at a time", () => {
+		expect(findWordAt(timings, 0.7)).toBe(timings[1]);
+		expect(findWordAt(timings, 1.3)).toBe(timings[1]);
+		expect(findWordAt(timings, 5)).toBe(timings[2]);
+		expect(findWordAt(timings, -1)).toBeNull();
+	});
+
+	test("timeAtOffset returns when the word at an offset starts", () => {
+		expect(timeAtOffset(timings, 5)).toBe(0.6);
+		expect(timeAtOffset(timings, 3)).toBe(0.6);
+		expect(timeAtOffset(timings, 99)).toBe(1.4);
+		expect(timeAtOffset([], 3)).toBe(0);
+	});
+
+	test("offsetTimings moves a part's timings into the whole", () => {
+		expect(offsetTimings(timings.slice(0, 1), 20, 3)).toEqual([
+			{ start: 20, length: 3, time: 3, end: 3.5 },
+		]);
+	});
+});
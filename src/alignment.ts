@@ -0,0 +1,161 @@
+/** When a word of a synthesized paragraph is spoken */
+export interface WordTiming {
+	/** Offset of the word in the spoken text */
+	start: number;
+	length: number;
+	/** Seconds into the clip */
+	time: number;
+	end: number;
+}
+
+/** Per-character timings as returned by ElevenLabs' timestamps endpoint */
+export interface CharacterAlignment {
+	characters: string[];
+	character_start_times_seconds: number[];
+	character_end_times_seconds: number[];
+}
+
+interface Word {
+	start: number;
+	length: number;
+}
+
+function splitWords(text: string): Word[] {
+	const words: Word[] = [];
+	const pattern = /\S+/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text))) {
+		words.push({ start: match.index, length: match[0].length });
+	}
+	return words;
+}
+
+/**
+ * Groups character timings into word timings. The characters are matched
+ * against `text` in order, so characters the service added or dropped
+ * (normalized whitespace, ...) do not shift the words after them.
+ */
+export function fromCharacterAlignment(
+	text: string,
+	alignment: CharacterAlignment
+): WordTiming[] {
+	const starts: number[] = [];
+	const ends: number[] = [];
+	let position = 0;
+	alignment.characters.forEach((character, i) => {
+		const index = text.indexOf(character, position);
+		// Only look a little ahead, or one odd character would skip the rest
+		if (index === -1 || index - position > 8) return;
+		starts[index] = alignment.character_start_times_seconds[i];
+		ends[index] = alignment.character_end_times_seconds[i];
+		position = index + character.length;
+	});
+
+	const timings: WordTiming[] = [];
+	for (const word of splitWords(text)) {
+		let time: number | undefined;
+		let end: number | undefined;
+		for (let i = word.start; i < word.start + word.length; i++) {
+			if (starts[i] === undefined) continue;
+			if (time === undefined) time = starts[i];
+			end = ends[i];
+		}
+		if (time !== undefined && end !== undefined) {
+			timings.push({ ...word, time, end });
+		}
+	}
+	return timings;
+}
+
+/** Rough syllable count: groups of vowels, with a silent final "e" */
+function countSyllables(word: string): number {
+	const letters = word.toLowerCase().replace(/[^a-zÀ-ɏ]/g, "");
+	if (!letters) {
+		// Numbers and symbols are read out, so they still take time
+		return Math.max(1, Math.ceil(word.replace(/\W/g, "").length / 2));
+	}
+	const groups = letters.replace(/e$/, "").match(/[aeiouyà-ÿ]+/g);
+	return Math.max(1, groups ? groups.length : 0);
+}
+
+/** Extra weight, in syllables, for the pause after a word */
+function pauseAfter(word: string): number {
+	if (/[.!?:;]["')\]]*$/.test(word)) return 2;
+	if (/[,–—]["')\]]*$/.test(word)) return 1;
+	return 0;
+}
+
+/**
+ * Estimates word timings for a clip without alignment data by spreading
+ * its duration over the words by syllable count, leaving room for the
+ * pauses voices make at punctuation.
+ */
+export function estimateWordTimings(
+	text: string,
+	duration: number
+): WordTiming[] {
+	const words = splitWords(text);
+	const weights = words.map((word) => {
+		const value = text.substr(word.start, word.length);
+		return { speech: countSyllables(value), pause: pauseAfter(value) };
+	});
+	const total = weights.reduce(
+		(sum, weight) => sum + weight.speech + weight.pause,
+		0
+	);
+	if (!total || !isFinite(duration) || duration <= 0) return [];
+
+	const secondsPerSyllable = duration / total;
+	let time = 0;
+	return words.map((word, i) => {
+		const end = time + weights[i].speech * secondsPerSyllable;
+		const timing = { ...word, time, end };
+		time = end + weights[i].pause * secondsPerSyllable;
+		return timing;
+	});
+}
+
+/** The word being spoken at `time`, or the last one spoken before it */
+export function findWordAt(
+	timings: WordTiming[],
+	time: number
+): WordTiming | null {
+	let low = 0;
+	let high = timings.length - 1;
+	let found: WordTiming | null = null;
+	while (low <= high) {
+		const middle = (low + high) >> 1;
+		if (timings[middle].time <= time) {
+			found = timings[middle];
+			low = middle + 1;
+		} else {
+			high = middle - 1;
+		}
+	}
+	return found;
+}
+
+/**
+ * Moves the timings of part of a paragraph to their place in the whole:
+ * the part starts `start` characters and `time` seconds in.
+ */
+export function offsetTimings(
+	timings: WordTiming[],
+	start: number,
+	time: number
+): WordTiming[] {
+	return timings.map((timing) => ({
+		...timing,
+		start: timing.start + start,
+		time: timing.time + time,
+		end: timing.end + time,
+	}));
+}
+
+/** When the word at or after spoken offset `offset` starts, in seconds */
+export function timeAtOffset(timings: WordTiming[], offset: number): number {
+	for (const timing of timings) {
+		if (timing.start + timing.length > offset) return timing.time;
+	}
+	return timings.length ? timings[timings.length - 1].time : 0;
+}
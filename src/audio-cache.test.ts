@@ -0,0 +1,178 @@
+import { DataAdapter } from "obsidian";
+import { AudioCache, AudioCacheKey } from "./audio-cache";
+
+const DIRECTORY = "plugins/note-reader/cache";
+const INDEX = `${DIRECTORY}/index.json`;
+
+/** The vault's files and folders, by path */
+let files: Map<string, string | ArrayBuffer>;
+let folders: Set<string>;
+
+function createAdapter(): DataAdapter {
+	return {
+		exists: async (path: string) => files.has(path) || folders.has(path),
+		mkdir: async (path: string) => {
+			folders.add(path);
+		},
+		read: async (path: string) => files.get(path) as string,
+		write: async (path: string, data: string) => {
+			files.set(path, data);
+		},
+		readBinary: async (path: string) => {
+			if (!files.has(path)) throw new Error(`No file at ${path}`);
+			return files.get(path) as ArrayBuffer;
+		},
+		writeBinary: async (path: string, data: ArrayBuffer) => {
+			files.set(path, data);
+		},
+		remove: async (path: string) => {
+			files.delete(path);
+		},
+	} as unknown as DataAdapter;
+}
+
+function createCache(limit = 1000) {
+	return new AudioCache(createAdapter(), DIRECTORY, () => limit);
+}
+
+function key(text: string, changes: Partial<AudioCacheKey> = {}) {
+	return {
+		provider: "openai",
+		voice: "alloy",
+		model: "tts-1",
+		speed: 1,
+		text,
+		...changes,
+	};
+}
+
+/** A clip of `size` bytes */
+function clip(size: number, type = "audio/mpeg") {
+	return { audio: new Blob([new Uint8Array(size)], { type }) };
+}
+
+/** The paths of the cached clips, leaving out the index */
+function clipFiles(): string[] {
+	return Array.from(files.keys()).filter((path) => path !== INDEX);
+}
+
+beforeEach(() => {
+	files = new Map();
+	folders = new Set();
+	jest.useFakeTimers({ now: 1000 });
+});
+
+afterEach(() => {
+	jest.useRealTimers();
+	jest.restoreAllMocks();
+});
+
+describe("AudioCache", () => {
+	test("returns a stored clip with its timings", async () => {
+		const cache = createCache();
+		const timings = [{ start: 0, length: 5, time: 0, end: 0.4 }];
+		await cache.put(key("Hello."), { ...clip(10), timings });
+
+		const cached = await cache.get(key("Hello."));
+
+		expect(cached?.audio.type).toBe("audio/mpeg");
+		expect(cached?.audio.size).toBe(10);
+		expect(cached?.timings).toEqual(timings);
+		expect(folders.has(DIRECTORY)).toBe(true);
+		expect(clipFiles()[0]).toMatch(
+			/^plugins\/note-reader\/cache\/\w{64}\.mp3$/
+		);
+	});
+
+	test("ignores whitespace differences in the text", async () => {
+		const cache = createCache();
+		await cache.put(key("Hello  there."), clip(10));
+
+		expect(await cache.has(key(" Hello\nthere. "))).toBe(true);
+	});
+
+	test("keeps clips apart by voice, model, speed and format", async () => {
+		const cache = createCache();
+		await cache.put(key("Hello."), clip(10));
+
+		for (const changes of [
+			{ provider: "elevenlabs" },
+			{ voice: "nova" },
+			{ model: "tts-1-hd" },
+			{ speed: 1.25 },
+			{ format: "opus" },
+		]) {
+			expect(await cache.has(key("Hello.", changes))).toBe(false);
+		}
+		// Speeds are compared to two decimals
+		expect(await cache.has(key("Hello.", { speed: 1.001 }))).toBe(true);
+	});
+
+	test("counts hits and misses", async () => {
+		const cache = createCache();
+		await cache.put(key("One."), clip(10));
+		await cache.get(key("One."));
+		await cache.get(key("Two."));
+
+		expect(await cache.getStats()).toEqual({
+			entries: 1,
+			bytes: 10,
+			hits: 1,
+			misses: 1,
+		});
+	});
+
+	test("evicts the least recently used clips over the limit", async () => {
+		const cache = createCache(250);
+		await cache.put(key("One."), clip(100));
+		jest.setSystemTime(2000);
+		await cache.put(key("Two."), clip(100));
+		jest.setSystemTime(3000);
+		// Reading a clip makes it recently used again
+		await cache.get(key("One."));
+		jest.setSystemTime(4000);
+		await cache.put(key("Three."), clip(100));
+
+		expect(await cache.has(key("One."))).toBe(true);
+		expect(await cache.has(key("Two."))).toBe(false);
+		expect(await cache.has(key("Three."))).toBe(true);
+		expect(clipFiles()).toHaveLength(2);
+		expect((await cache.getStats()).bytes).toBe(200);
+	});
+
+	test("persists the index for the next session", async () => {
+		await createCache().put(key("Hello."), clip(10, "audio/wav"));
+		const index = JSON.parse(files.get(INDEX) as string);
+		const [entry] = Object.keys(index).map((hash) => index[hash]);
+		expect(entry).toMatchObject({
+			mimeType: "audio/wav",
+			size: 10,
+			lastUsed: 1000,
+		});
+		expect(entry.file).toMatch(/\.wav$/);
+
+		const cache = createCache();
+		expect((await cache.get(key("Hello.")))?.audio.type).toBe("audio/wav");
+	});
+
+	test("drops entries whose file went missing", async () => {
+		jest.spyOn(console, "warn").mockImplementation(() => undefined);
+		const cache = createCache();
+		await cache.put(key("Hello."), clip(10));
+		files.delete(clipFiles()[0]);
+
+		expect(await cache.get(key("Hello."))).toBeNull();
+		expect(await cache.has(key("Hello."))).toBe(false);
+	});
+
+	test("clears every clip", async () => {
+		const cache = createCache();
+		await cache.put(key("One."), clip(10));
+		await cache.put(key("Two."), clip(10));
+		await cache.clear();
+
+		expect(clipFiles()).toEqual([]);
+		expect(JSON.parse(files.get(INDEX) as string)).toEqual({});
+		expect((await cache.getStats()).entries).toBe(0);
+	});
+});
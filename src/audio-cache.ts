@@ -0,0 +1,215 @@
+import { DataAdapter, normalizePath } from "obsidian";
+import { WordTiming } from "./alignment";
+import { TimedAudio } from "./providers/types";
+
+/** Everything that changes the audio generated for a paragraph */
+export interface AudioCacheKey {
+	provider: string;
+	voice: string;
+	model: string;
+	speed: number;
+	text: string;
+	/** Container requested from the provider, when not its default */
+	format?: string;
+}
+
+export interface AudioCacheStats {
+	entries: number;
+	bytes: number;
+	hits: number;
+	misses: number;
+}
+
+interface AudioCacheEntry {
+	file: string;
+	mimeType: string;
+	size: number;
+	lastUsed: number;
+	timings?: WordTiming[];
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+	"audio/mpeg": "mp3",
+	"audio/wav": "wav",
+	"audio/ogg": "ogg",
+	"audio/aac": "aac",
+	"audio/flac": "flac",
+};
+
+/** Whitespace differences must not produce a different clip */
+function normalizeText(text: string): string {
+	return text.replace(/\s+/g, " ").trim();
+}
+
+async function hashKey(key: AudioCacheKey): Promise<string> {
+	const parts = [
+		key.provider,
+		key.voice,
+		key.model,
+		key.speed.toFixed(2),
+		normalizeText(key.text),
+	];
+	// Left out when unset so clips cached before exports existed still match
+	if (key.format) parts.push(key.format);
+	const data = new TextEncoder().encode(JSON.stringify(parts));
+	const digest = await crypto.subtle.digest("SHA-256", data);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => ("0" + byte.toString(16)).slice(-2))
+		.join("");
+}
+
+/**
+ * Content-addressed store of synthesized audio in the plugin folder. Clips
+ * are named after the hash of their key; `index.json` records their size
+ * and last use so the least recently used ones can be evicted.
+ */
+export class AudioCache {
+	private index: Record<string, AudioCacheEntry> | null = null;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(
+		private adapter: DataAdapter,
+		private directory: string,
+		private getLimitBytes: () => number
+	) {}
+
+	private get indexPath(): string {
+		return normalizePath(`${this.directory}/index.json`);
+	}
+
+	private async loadIndex(): Promise<Record<string, AudioCacheEntry>> {
+		if (this.index) return this.index;
+
+		let index: Record<string, AudioCacheEntry> = {};
+		try {
+			if (await this.adapter.exists(this.indexPath)) {
+				index = JSON.parse(await this.adapter.read(this.indexPath));
+			}
+		} catch (error) {
+			console.error("Error reading audio cache index:", error);
+		}
+		this.index = index;
+		return index;
+	}
+
+	private async saveIndex() {
+		if (!this.index) return;
+		if (!(await this.adapter.exists(this.directory))) {
+			await this.adapter.mkdir(this.directory);
+		}
+		await this.adapter.write(this.indexPath, JSON.stringify(this.index));
+	}
+
+	async get(key: AudioCacheKey): Promise<TimedAudio | null> {
+		const index = await this.loadIndex();
+		const hash = await hashKey(key);
+		const entry = index[hash];
+
+		if (entry) {
+			try {
+				const data = await this.adapter.readBinary(
+					normalizePath(`${this.directory}/${entry.file}`)
+				);
+				entry.lastUsed = Date.now();
+				this.hits++;
+				this.saveIndex().catch((error) =>
+					console.error("Error saving audio cache index:", error)
+				);
+				return {
+					audio: new Blob([data], { type: entry.mimeType }),
+					timings: entry.timings,
+				};
+			} catch (error) {
+				// The file went missing behind our back
+				console.warn("Dropping unreadable cache entry:", error);
+				delete index[hash];
+			}
+		}
+
+		this.misses++;
+		return null;
+	}
+
+	/** Whether a clip is cached for `key`, without reading it */
+	async has(key: AudioCacheKey): Promise<boolean> {
+		const index = await this.loadIndex();
+		return (await hashKey(key)) in index;
+	}
+
+	async put(key: AudioCacheKey, clip: TimedAudio) {
+		const blob = clip.audio;
+		const index = await this.loadIndex();
+		const hash = await hashKey(key);
+		const extension = FILE_EXTENSIONS[blob.type] ?? "bin";
+		const file = `${hash}.${extension}`;
+
+		if (!(await this.adapter.exists(this.directory))) {
+			await this.adapter.mkdir(this.directory);
+		}
+		await this.adapter.writeBinary(
+			normalizePath(`${this.directory}/${file}`),
+			await blob.arrayBuffer()
+		);
+
+		index[hash] = {
+			file,
+			mimeType: blob.type,
+			size: blob.size,
+			lastUsed: Date.now(),
+			timings: clip.timings,
+		};
+		await this.evict();
+		await this.saveIndex();
+	}
+
+	/** Removes least recently used clips until the cache fits its limit. */
+	private async evict() {
+		const index = await this.loadIndex();
+		const limit = this.getLimitBytes();
+		const hashes = Object.keys(index).sort(
+			(a, b) => index[a].lastUsed - index[b].lastUsed
+		);
+		let total = hashes.reduce((sum, hash) => sum + index[hash].size, 0);
+
+		for (const hash of hashes) {
+			if (total <= limit) break;
+			total -= index[hash].size;
+			await this.removeFile(index[hash].file);
+			delete index[hash];
+		}
+	}
+
+	async clear() {
+		const index = await this.loadIndex();
+		for (const hash of Object.keys(index)) {
+			await this.removeFile(index[hash].file);
+		}
+		this.index = {};
+		this.hits = 0;
+		this.misses = 0;
+		await this.saveIndex();
+	}
+
+	async getStats(): Promise<AudioCacheStats> {
+		const index = await this.loadIndex();
+		const hashes = Object.keys(index);
+		return {
+			entries: hashes.length,
+			bytes: hashes.reduce((sum, hash) => sum + index[hash].size, 0),
+			hits: this.hits,
+			misses: this.misses,
+		};
+	}
+
+	private async removeFile(file: string) {
+		const path = normalizePath(`${this.directory}/${file}`);
+		try {
+			if (await this.adapter.exists(path)) {
+				await this.adapter.remove(path);
+			}
+		} catch (error) {
+			console.warn("Error removing cached audio:", error);
+		}
+	}
+}
@@ -0,0 +1,116 @@
+import { detectFormat, joinClips, pcmToWav } from "./audio-join";
+
+function bytes(...parts: Array<string | number[] | Uint8Array>): ArrayBuffer {
+	const values: number[] = [];
+	for (const part of parts) {
+		if (typeof part === "string") {
+			for (let i = 0; i < part.length; i++) {
+				values.push(part.charCodeAt(i));
+			}
+		} else {
+			values.push(...Array.from(part));
+		}
+	}
+	return new Uint8Array(values).buffer;
+}
+
+function uint32(value: number): number[] {
+	return [
+		value & 0xff,
+		(value >> 8) & 0xff,
+		(value >> 16) & 0xff,
+		value >>> 24,
+	];
+}
+
+function uint16(value: number): number[] {
+	return [value & 0xff, (value >> 8) & 0xff];
+}
+
+/** A 16-bit mono WAV clip holding `samples` bytes of sample data */
+function wav(samples: number[], sampleRate = 24000): ArrayBuffer {
+	return bytes(
+		"RIFF",
+		uint32(36 + samples.length),
+		"WAVE",
+		"fmt ",
+		uint32(16),
+		uint16(1),
+		uint16(1),
+		uint32(sampleRate),
+		uint32(sampleRate * 2),
+		uint16(2),
+		uint16(16),
+		"data",
+		uint32(samples.length),
+		samples
+	);
+}
+
+/** A 128 kbit/s, 44.1 kHz MPEG-1 Layer III frame filled with `fill` */
+function mp3Frame(fill: number, tag = ""): Uint8Array {
+	const frame = new Uint8Array(417).fill(fill);
+	frame.set([0xff, 0xfb, 0x90, 0x00]);
+	for (let i = 0; i < tag.length; i++) frame[36 + i] = tag.charCodeAt(i);
+	return frame;
+}
+
+describe("detectFormat", () => {
+	test("recognizes WAV, Ogg and MP3 by their first bytes", () => {
+		expect(detectFormat(wav([]))).toBe("wav");
+		expect(detectFormat(bytes("OggS", [0, 2]))).toBe("opus");
+		expect(detectFormat(bytes("ID3", [4, 0]))).toBe("mp3");
+		expect(detectFormat(bytes([0xff, 0xfb, 0x90, 0]))).toBe("mp3");
+		expect(detectFormat(bytes("fLaC"))).toBeNull();
+	});
+});
+
+describe("pcmToWav", () => {
+	test("puts a 16-bit mono header before bare samples", () => {
+		const samples = new Uint8Array([1, 2, 3, 4]);
+
+		expect(new Uint8Array(pcmToWav(samples, 24000))).toEqual(
+			new Uint8Array(wav([1, 2, 3, 4], 24000))
+		);
+	});
+});
+
+describe("joinClips", () => {
+	test("joins WAV clips sample by sample under one header", async () => {
+		const joined = await joinClips([wav([1, 2]), wav([3, 4, 5, 6])], "wav");
+
+		expect(new Uint8Array(joined)).toEqual(
+			new Uint8Array(wav([1, 2, 3, 4, 5, 6]))
+		);
+	});
+
+	test("drops ID3 tags and the Xing header frame from MP3 clips", async () => {
+		const id3 = bytes("ID3", [4, 0, 0, 0, 0, 0, 2], [0, 0]);
+		const clip = bytes(
+			new Uint8Array(id3),
+			mp3Frame(0, "Xing"),
+			mp3Frame(7)
+		);
+
+		const joined = new Uint8Array(await joinClips([clip, clip], "mp3"));
+
+		expect(joined.length).toBe(2 * 417);
+		expect(joined.slice(0, 417)).toEqual(mp3Frame(7));
+		expect(joined.slice(417)).toEqual(mp3Frame(7));
+	});
+
+	test("chains Ogg streams as they are", async () => {
+		const first = bytes("OggS", [1]);
+		const second = bytes("OggS", [2]);
+
+		expect(
+			new Uint8Array(await joinClips([first, second], "opus"))
+		).toEqual(new Uint8Array(bytes("OggS", [1], "OggS", [2])));
+	});
+
+	test("refuses clips that cannot be saved in the format", async () => {
+		await expect(joinClips([wav([1, 2])], "mp3")).rejects.toThrow(
+			"returned wav audio, which cannot be saved as mp3"
+		);
+	});
+});
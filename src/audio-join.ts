@@ -0,0 +1,274 @@
+import { AudioFormat } from "./providers/types";
+
+/**
+ * Joins the per-paragraph clips of a note into a single audio file.
+ *
+ * MP3 and Ogg Opus clips are joined at the byte level (MP3 frames and
+ * chained Ogg streams both play back to back). WAV output is joined from
+ * the raw samples, decoding the clips first when they are not WAV already.
+ */
+
+function startsWith(bytes: Uint8Array, text: string, offset = 0): boolean {
+	for (let i = 0; i < text.length; i++) {
+		if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+	}
+	return true;
+}
+
+/** Identifies a clip's container from its first bytes */
+export function detectFormat(data: ArrayBuffer): AudioFormat | null {
+	const bytes = new Uint8Array(data);
+	if (startsWith(bytes, "RIFF") && startsWith(bytes, "WAVE", 8)) {
+		return "wav";
+	}
+	if (startsWith(bytes, "OggS")) return "opus";
+	if (
+		startsWith(bytes, "ID3") ||
+		(bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)
+	) {
+		return "mp3";
+	}
+	return null;
+}
+
+function concatBytes(parts: Uint8Array[]): ArrayBuffer {
+	const total = parts.reduce((sum, part) => sum + part.length, 0);
+	const result = new Uint8Array(total);
+	let offset = 0;
+	for (const part of parts) {
+		result.set(part, offset);
+		offset += part.length;
+	}
+	return result.buffer;
+}
+
+const MP3_BITRATES = [
+	// MPEG-1 Layer III
+	[0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+	// MPEG-2 and 2.5 Layer III
+	[0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+];
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+/** Length in bytes of the Layer III frame starting at `offset`, or 0 */
+function mp3FrameLength(bytes: Uint8Array, offset: number): number {
+	if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+		return 0;
+	}
+	const version = (bytes[offset + 1] >> 3) & 0x03; // 3 = MPEG-1
+	const layer = (bytes[offset + 1] >> 1) & 0x03; // 1 = Layer III
+	const bitrateIndex = bytes[offset + 2] >> 4;
+	const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+	const padding = (bytes[offset + 2] >> 1) & 0x01;
+	if (layer !== 1 || version === 1 || sampleRateIndex === 3) return 0;
+
+	const isMpeg1 = version === 3;
+	const bitrate = MP3_BITRATES[isMpeg1 ? 0 : 1][bitrateIndex] * 1000;
+	let sampleRate = MP3_SAMPLE_RATES[sampleRateIndex];
+	if (version === 2) sampleRate /= 2;
+	if (version === 0) sampleRate /= 4;
+	if (!bitrate) return 0;
+
+	return Math.floor(((isMpeg1 ? 144 : 72) * bitrate) / sampleRate) + padding;
+}
+
+/**
+ * Strips ID3 tags and the Xing/Info header frame, whose frame count would
+ * make players think the joined file ends after the first clip.
+ */
+function mp3Frames(data: ArrayBuffer): Uint8Array {
+	let bytes = new Uint8Array(data);
+
+	if (startsWith(bytes, "ID3") && bytes.length > 10) {
+		const size =
+			(bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+		const footer = bytes[5] & 0x10 ? 10 : 0;
+		bytes = bytes.subarray(10 + size + footer);
+	}
+	if (bytes.length >= 128 && startsWith(bytes, "TAG", bytes.length - 128)) {
+		bytes = bytes.subarray(0, bytes.length - 128);
+	}
+
+	const frameLength = mp3FrameLength(bytes, 0);
+	if (frameLength) {
+		const firstFrame = bytes.subarray(0, Math.min(frameLength, 64));
+		for (let i = 4; i < firstFrame.length - 4; i++) {
+			if (
+				startsWith(firstFrame, "Xing", i) ||
+				startsWith(firstFrame, "Info", i)
+			) {
+				return bytes.subarray(frameLength);
+			}
+		}
+	}
+	return bytes;
+}
+
+interface WavClip {
+	audioFormat: number;
+	channels: number;
+	sampleRate: number;
+	bitsPerSample: number;
+	samples: Uint8Array;
+}
+
+function parseWav(data: ArrayBuffer): WavClip | null {
+	const bytes = new Uint8Array(data);
+	const view = new DataView(data);
+	let format: Omit<WavClip, "samples"> | null = null;
+
+	let offset = 12;
+	while (offset + 8 <= bytes.length) {
+		const size = view.getUint32(offset + 4, true);
+		const body = offset + 8;
+		if (startsWith(bytes, "fmt ", offset)) {
+			format = {
+				audioFormat: view.getUint16(body, true),
+				channels: view.getUint16(body + 2, true),
+				sampleRate: view.getUint32(body + 4, true),
+				bitsPerSample: view.getUint16(body + 14, true),
+			};
+		} else if (startsWith(bytes, "data", offset) && format) {
+			// Streamed WAV files may not know their data size up front
+			const end = Math.min(body + size, bytes.length);
+			return { ...format, samples: bytes.subarray(body, end) };
+		}
+		offset = body + size + (size % 2);
+	}
+	return null;
+}
+
+function wavHeader(
+	dataSize: number,
+	audioFormat: number,
+	channels: number,
+	sampleRate: number,
+	bitsPerSample: number
+): Uint8Array {
+	const header = new ArrayBuffer(44);
+	const view = new DataView(header);
+	const writeText = (offset: number, text: string) => {
+		for (let i = 0; i < text.length; i++) {
+			view.setUint8(offset + i, text.charCodeAt(i));
+		}
+	};
+	const blockAlign = (channels * bitsPerSample) / 8;
+
+	writeText(0, "RIFF");
+	view.setUint32(4, 36 + dataSize, true);
+	writeText(8, "WAVE");
+	writeText(12, "fmt ");
+	view.setUint32(16, 16, true);
+	view.setUint16(20, audioFormat, true);
+	view.setUint16(22, channels, true);
+	view.setUint32(24, sampleRate, true);
+	view.setUint32(28, sampleRate * blockAlign, true);
+	view.setUint16(32, blockAlign, true);
+	view.setUint16(34, bitsPerSample, true);
+	writeText(36, "data");
+	view.setUint32(40, dataSize, true);
+	return new Uint8Array(header);
+}
+
+/** Wraps headerless 16-bit mono samples, as some services send, in WAV */
+export function pcmToWav(samples: Uint8Array, sampleRate: number): ArrayBuffer {
+	return concatBytes([
+		wavHeader(samples.length, 1, 1, sampleRate, 16),
+		samples,
+	]);
+}
+
+/** Joins WAV clips that share a sample format without re-encoding */
+function joinWavClips(clips: WavClip[]): ArrayBuffer | null {
+	const first = clips[0];
+	const compatible = clips.every(
+		(clip) =>
+			clip.audioFormat === first.audioFormat &&
+			clip.channels === first.channels &&
+			clip.sampleRate === first.sampleRate &&
+			clip.bitsPerSample === first.bitsPerSample
+	);
+	if (!compatible) return null;
+
+	const dataSize = clips.reduce((sum, clip) => sum + clip.samples.length, 0);
+	return concatBytes([
+		wavHeader(
+			dataSize,
+			first.audioFormat,
+			first.channels,
+			first.sampleRate,
+			first.bitsPerSample
+		),
+		...clips.map((clip) => clip.samples),
+	]);
+}
+
+/** Decodes any clips the browser can play and writes them as 16-bit mono WAV */
+async function decodeToWav(clips: ArrayBuffer[]): Promise<ArrayBuffer> {
+	const context = new AudioContext();
+	try {
+		const buffers: AudioBuffer[] = [];
+		for (const clip of clips) {
+			buffers.push(await context.decodeAudioData(clip.slice(0)));
+		}
+
+		const length = buffers.reduce((sum, buffer) => sum + buffer.length, 0);
+		const pcm = new DataView(new ArrayBuffer(length * 2));
+		let frame = 0;
+		for (const buffer of buffers) {
+			const channels: Float32Array[] = [];
+			for (let c = 0; c < buffer.numberOfChannels; c++) {
+				channels.push(buffer.getChannelData(c));
+			}
+			for (let i = 0; i < buffer.length; i++, frame++) {
+				let sample = 0;
+				for (const channel of channels) sample += channel[i];
+				sample = Math.max(-1, Math.min(1, sample / channels.length));
+				pcm.setInt16(frame * 2, sample * 0x7fff, true);
+			}
+		}
+
+		return concatBytes([
+			wavHeader(length * 2, 1, 1, context.sampleRate, 16),
+			new Uint8Array(pcm.buffer),
+		]);
+	} finally {
+		await context.close();
+	}
+}
+
+/**
+ * Joins `clips` into one file of `format`. Throws when the clips are in a
+ * container that cannot be turned into `format` here.
+ */
+export async function joinClips(
+	clips: ArrayBuffer[],
+	format: AudioFormat
+): Promise<ArrayBuffer> {
+	const formats = clips.map(detectFormat);
+	const mismatch = formats.find((clipFormat) => clipFormat !== format);
+
+	if (format === "wav") {
+		if (mismatch === undefined) {
+			const parsed = clips.map(parseWav);
+			if (parsed.every((clip): clip is WavClip => clip !== null)) {
+				const joined = joinWavClips(parsed);
+				if (joined) return joined;
+			}
+		}
+		return decodeToWav(clips);
+	}
+
+	if (mismatch !== undefined) {
+		throw new Error(
+			`The voice service returned ${
+				mismatch ?? "unknown"
+			} audio, which cannot be saved as ${format}. Export as WAV instead.`
+		);
+	}
+
+	if (format === "mp3") {
+		return concatBytes(clips.map(mp3Frames));
+	}
+	return concatBytes(clips.map((clip) => new Uint8Array(clip)));
+}
@@ -0,0 +1,71 @@
+import { App, FuzzySuggestModal, Modal, Setting } from "obsidian";
+import { Bookmark } from "./listening-store";
+
+/** Asks for the name of a new bookmark */
+export class BookmarkNameModal extends Modal {
+	constructor(
+		app: App,
+		private defaultName: string,
+		private onSubmit: (name: string) => void
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		let name = this.defaultName;
+
+		contentEl.createEl("h3", { text: "Add listening bookmark" });
+
+		const submit = () => {
+			this.close();
+			this.onSubmit(name.trim() || this.defaultName);
+		};
+
+		new Setting(contentEl).setName("Name").addText((text) => {
+			text.setValue(name).onChange((value) => {
+				name = value;
+			});
+			text.inputEl.addEventListener("keydown", (event) => {
+				if (event.key === "Enter") {
+					event.preventDefault();
+					submit();
+				}
+			});
+			window.setTimeout(() => text.inputEl.select(), 0);
+		});
+
+		new Setting(contentEl).addButton((button) =>
+			button.setButtonText("Add").setCta().onClick(submit)
+		);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/** Lists a note's bookmarks to jump to one */
+export class BookmarkSuggestModal extends FuzzySuggestModal<Bookmark> {
+	constructor(
+		app: App,
+		private bookmarks: Bookmark[],
+		private onChoose: (bookmark: Bookmark) => void
+	) {
+		super(app);
+		this.setPlaceholder("Jump to a bookmark");
+	}
+
+	getItems(): Bookmark[] {
+		return this.bookmarks;
+	}
+
+	getItemText(bookmark: Bookmark): string {
+		return `${bookmark.name}: ${bookmark.excerpt}`;
+	}
+
+	onChooseItem(bookmark: Bookmark) {
+		this.onChoose(bookmark);
+	}
+}
@@ -0,0 +1,43 @@
+import { App, Modal, Setting } from "obsidian";
+
+/** Asks a yes/no question; closing the modal counts as no */
+export class ConfirmModal extends Modal {
+	private confirmed = false;
+
+	constructor(
+		app: App,
+		private title: string,
+		private message: string,
+		private confirmText: string,
+		private onChoose: (confirmed: boolean) => void
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl("h3", { text: this.title });
+		contentEl.createEl("p", { text: this.message });
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(this.confirmText)
+					.setCta()
+					.onClick(() => {
+						this.confirmed = true;
+						this.close();
+					})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.onChoose(this.confirmed);
+	}
+}
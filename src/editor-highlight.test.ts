@@ -0,0 +1,104 @@
+import { EditorState } from "@codemirror/state";
+import { DecorationSet, EditorView } from "@codemirror/view";
+import {
+	HighlightRange,
+	highlightTransaction,
+	readingHighlightExtension,
+} from "./editor-highlight";
+
+const SOURCE = "First line.\nSecond line with words.";
+
+function createState(doc = SOURCE) {
+	return EditorState.create({ doc, extensions: readingHighlightExtension });
+}
+
+/** The text under each highlight, by kind */
+function highlighted(state: EditorState): Record<string, string> {
+	const found: Record<string, string> = {};
+	for (const decorations of state.facet(EditorView.decorations)) {
+		(decorations as DecorationSet).between(
+			0,
+			state.doc.length,
+			(from, to, value) => {
+				const kind = /tts-highlighted-(\w+)/.exec(
+					value.spec.class
+				)?.[1];
+				if (kind) found[kind] = state.sliceDoc(from, to);
+			}
+		);
+	}
+	return found;
+}
+
+/** Highlights `text`, found in SOURCE, as a word of the note being read */
+function wordAt(text: string): HighlightRange[] {
+	const from = SOURCE.indexOf(text);
+	return [{ kind: "word", from, to: from + text.length }];
+}
+
+function highlight(
+	state: EditorState,
+	ranges: HighlightRange[],
+	source?: string
+): EditorState {
+	return state.update(highlightTransaction(state, ranges, source)).state;
+}
+
+describe("editor highlights", () => {
+	test("draws ranges at their offsets", () => {
+		const state = highlight(createState(), wordAt("Second"), SOURCE);
+
+		expect(highlighted(state)).toEqual({ word: "Second" });
+	});
+
+	test("keep to the same words when text is typed above them", () => {
+		let state = highlight(createState(), wordAt("Second"), SOURCE);
+		state = state.update({
+			changes: { from: 0, insert: "A new first line.\n" },
+		}).state;
+
+		expect(highlighted(state)).toEqual({ word: "Second" });
+
+		// The next word is still measured on the text reading started with
+		state = highlight(state, wordAt("words"), SOURCE);
+		expect(highlighted(state)).toEqual({ word: "words" });
+	});
+
+	test("keep to the same words when text above them is deleted", () => {
+		let state = highlight(createState(), wordAt("First"), SOURCE);
+		state = state.update({ changes: { from: 0, to: 6 } }).state;
+		state = highlight(state, wordAt("with"), SOURCE);
+
+		expect(highlighted(state)).toEqual({ word: "with" });
+	});
+
+	test("drop words whose text was deleted", () => {
+		let state = highlight(createState(), wordAt("First"), SOURCE);
+		const from = SOURCE.indexOf("words");
+		state = state.update({ changes: { from, to: from + 5 } }).state;
+		state = highlight(state, wordAt("words"), SOURCE);
+
+		expect(highlighted(state)).toEqual({});
+	});
+
+	test("start over from the document when a new read begins", () => {
+		let state = highlight(createState(), wordAt("Second"), SOURCE);
+		state = state.update({ changes: { from: 0, insert: "Top.\n" } }).state;
+		const source = state.doc.toString();
+		const from = source.indexOf("Top");
+		state = highlight(
+			state,
+			[{ kind: "word", from, to: from + 3 }],
+			source
+		);
+
+		expect(highlighted(state)).toEqual({ word: "Top" });
+	});
+
+	test("clear with an empty list", () => {
+		let state = highlight(createState(), wordAt("Second"), SOURCE);
+		state = highlight(state, []);
+
+		expect(highlighted(state)).toEqual({});
+	});
+});
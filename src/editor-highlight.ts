@@ -0,0 +1,171 @@
+import {
+	ChangeSet,
+	EditorState,
+	StateEffect,
+	StateField,
+	TransactionSpec,
+} from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView } from "@codemirror/view";
+import { Editor } from "obsidian";
+
+export type HighlightKind = "paragraph" | "sentence" | "word";
+
+/** A range of the note being read, in source offsets */
+export interface HighlightRange {
+	kind: HighlightKind;
+	from: number;
+	to: number;
+	/** Inline style, e.g. the configured colour and highlight style */
+	css?: string;
+}
+
+/**
+ * Replaces all reading highlights in an editor; empty clears them. The
+ * ranges are already mapped to the document; `source` is the text they
+ * were measured on, when it differs from the last one.
+ */
+const setHighlightsEffect = StateEffect.define<{
+	ranges: HighlightRange[];
+	source?: string;
+}>();
+
+// Paragraphs go first so the narrower marks are drawn inside them
+const KIND_ORDER: Record<HighlightKind, number> = {
+	paragraph: 0,
+	sentence: 1,
+	word: 2,
+};
+
+function buildDecorations(
+	ranges: HighlightRange[],
+	docLength: number
+): DecorationSet {
+	const marks = ranges
+		.filter((range) => range.from < range.to && range.to <= docLength)
+		.sort(
+			(a, b) => a.from - b.from || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]
+		)
+		.map((range) =>
+			Decoration.mark({
+				class: `tts-highlight tts-highlighted-${range.kind}`,
+				attributes: range.css ? { style: range.css } : undefined,
+			}).range(range.from, range.to)
+		);
+	return Decoration.set(marks);
+}
+
+interface HighlightState {
+	decorations: DecorationSet;
+	/** The text the highlights' offsets were measured on */
+	source: string | null;
+	/** Edits made since, to map those offsets to the document */
+	changes: ChangeSet;
+}
+
+/**
+ * Holds the highlights drawn while a note is read aloud, and the edits
+ * made since reading started. New highlights are mapped through those
+ * edits and drawn ones through each change, so the user can keep typing
+ * while audio plays.
+ */
+const highlightField = StateField.define<HighlightState>({
+	create: (state) => ({
+		decorations: Decoration.none,
+		source: null,
+		changes: ChangeSet.empty(state.doc.length),
+	}),
+	update(value, transaction) {
+		let { decorations, source, changes } = value;
+		if (transaction.docChanged) {
+			decorations = decorations.map(transaction.changes);
+			changes = changes.compose(transaction.changes);
+		}
+		for (const effect of transaction.effects) {
+			if (!effect.is(setHighlightsEffect)) continue;
+			if (
+				effect.value.source !== undefined &&
+				effect.value.source !== source
+			) {
+				source = effect.value.source;
+				changes = ChangeSet.empty(transaction.state.doc.length);
+			}
+			decorations = buildDecorations(
+				effect.value.ranges,
+				transaction.state.doc.length
+			);
+		}
+		return { decorations, source, changes };
+	},
+	provide: (field) =>
+		EditorView.decorations.from(field, (value) => value.decorations),
+});
+
+/** The CodeMirror view behind an Obsidian editor (not part of the typed API) */
+export function getEditorView(editor: Editor): EditorView | null {
+	return (editor as unknown as { cm?: EditorView }).cm ?? null;
+}
+
+/** Editor extension to register with `registerEditorExtension` */
+export const readingHighlightExtension = [highlightField];
+
+/**
+ * Editor extension that calls `onActivity` when the user moves the
+ * selection or edits, so highlights stop pulling the editor along.
+ */
+export function userActivityListener(onActivity: (view: EditorView) => void) {
+	return EditorView.updateListener.of((update) => {
+		const byUser = update.transactions.some(
+			(transaction) =>
+				transaction.isUserEvent("select") ||
+				transaction.isUserEvent("input") ||
+				transaction.isUserEvent("delete")
+		);
+		if (byUser) onActivity(update.view);
+	});
+}
+
+/**
+ * The transaction that draws `ranges`, given as offsets in `source`, in
+ * `state`. Edits made since the first highlights from `source` were drawn
+ * move them along; ranges whose text was deleted are dropped. Without
+ * `source`, ranges are offsets in the current document. With `scroll`,
+ * the last range is scrolled into view if it is off screen.
+ */
+export function highlightTransaction(
+	state: EditorState,
+	ranges: HighlightRange[],
+	source?: string,
+	scroll = false
+): TransactionSpec {
+	const tracked = state.field(highlightField);
+	const changes =
+		source !== undefined && tracked.source === source
+			? tracked.changes
+			: ChangeSet.empty(state.doc.length);
+	const mapped = ranges
+		.map((range) => ({
+			...range,
+			from: changes.mapPos(range.from, 1),
+			to: changes.mapPos(range.to, -1),
+		}))
+		.filter((range) => range.from < range.to);
+
+	const effects: StateEffect<unknown>[] = [
+		setHighlightsEffect.of({ ranges: mapped, source }),
+	];
+	const focus = mapped[mapped.length - 1];
+	if (scroll && focus && focus.to <= state.doc.length) {
+		effects.push(EditorView.scrollIntoView(focus.from, { y: "nearest" }));
+	}
+	return { effects };
+}
+
+/** Draws `ranges` in `view`, see highlightTransaction */
+export function setEditorHighlights(
+	view: EditorView,
+	ranges: HighlightRange[],
+	source?: string,
+	scroll = false
+) {
+	view.dispatch(highlightTransaction(view.state, ranges, source, scroll));
+}
@@ -0,0 +1,66 @@
+import { detectLanguage, findLanguageVoice, sameLanguage } from "./language";
+import { LanguageVoice } from "./settings";
+
+describe("detectLanguage", () => {
+	test("tells Latin-script languages apart by their common words", () => {
+		expect(detectLanguage("The cat is in the garden with the dog.")).toBe(
+			"en"
+		);
+		expect(detectLanguage("Der Hund ist nicht in dem Garten.")).toBe("de");
+		expect(
+			detectLanguage("Le chat est dans le jardin avec les enfants.")
+		).toBe("fr");
+		expect(detectLanguage("El perro y los gatos están en la casa.")).toBe(
+			"es"
+		);
+	});
+
+	test("recognizes languages by their script", () => {
+		expect(detectLanguage("Привет, как дела?")).toBe("ru");
+		expect(detectLanguage("안녕하세요")).toBe("ko");
+		expect(detectLanguage("Καλημέρα σας")).toBe("el");
+	});
+
+	test("tells Japanese from Chinese by its kana", () => {
+		expect(detectLanguage("今日は良い天気ですね")).toBe("ja");
+		expect(detectLanguage("今天天气很好")).toBe("zh");
+	});
+
+	test("goes by the script most of the text is in", () => {
+		expect(detectLanguage("Москва is a city, Москва большая")).toBe("ru");
+	});
+
+	test("makes no guess for short or unclear text", () => {
+		expect(detectLanguage("Hello world")).toBeUndefined();
+		expect(detectLanguage("Lorem ipsum dolor sit amet")).toBeUndefined();
+		expect(detectLanguage("123 456")).toBeUndefined();
+	});
+});
+
+describe("findLanguageVoice", () => {
+	const mappings: LanguageVoice[] = [
+		{ language: "pt", service: "openai", voice: "nova" },
+		{ language: "pt-BR", service: "elevenlabs", voice: "brazil" },
+		{ language: "de", service: "system", voice: "Anna" },
+	];
+
+	test("prefers a mapping for the exact tag", () => {
+		expect(findLanguageVoice(mappings, "pt-br")?.voice).toBe("brazil");
+	});
+
+	test("falls back to the primary language", () => {
+		expect(findLanguageVoice(mappings, "pt-PT")?.voice).toBe("nova");
+		expect(findLanguageVoice(mappings, "de-AT")?.voice).toBe("Anna");
+	});
+
+	test("finds nothing for unmapped languages", () => {
+		expect(findLanguageVoice(mappings, "fr")).toBeUndefined();
+	});
+});
+
+describe("sameLanguage", () => {
+	test("ignores the region and case", () => {
+		expect(sameLanguage("en-US", "EN_gb")).toBe(true);
+		expect(sameLanguage("en", "de")).toBe(false);
+	});
+});
@@ -0,0 +1,117 @@
+import { LanguageVoice } from "./settings";
+
+/** Writing systems used by a single language we can read */
+const SCRIPTS: Array<[string, RegExp]> = [
+	["ko", /\p{Script=Hangul}/gu],
+	["ru", /\p{Script=Cyrillic}/gu],
+	["el", /\p{Script=Greek}/gu],
+	["ar", /\p{Script=Arabic}/gu],
+	["he", /\p{Script=Hebrew}/gu],
+	["hi", /\p{Script=Devanagari}/gu],
+	["th", /\p{Script=Thai}/gu],
+];
+
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const HAN = /\p{Script=Han}/gu;
+const LATIN = /\p{Script=Latin}/gu;
+
+/**
+ * Frequent short words of languages written in the Latin alphabet. Text
+ * is taken to be in the language whose words it uses most.
+ */
+const COMMON_WORDS: Record<string, string> = {
+	en: "the and of to is in that it with for was on are this be have you not but they",
+	de: "der die das und ist nicht ein eine ich zu mit sich den auf auch es dem von sie wir",
+	fr: "le la les et est des une un du que pas pour dans qui sur au avec ce il je",
+	es: "el la los las y es que de en un una por con no para se del lo al como",
+	it: "il la che e di un una non per sono gli le con del della è si ma come anche",
+	pt: "o a os as e que de não um uma para com do da em é se por mais no",
+	nl: "de het een en van is niet dat op te zijn met voor er ik die ook maar aan je",
+};
+
+/** Fewer words than this give no reliable guess */
+const MIN_WORDS = 4;
+
+function count(text: string, pattern: RegExp): number {
+	return text.match(pattern)?.length ?? 0;
+}
+
+function detectLatinLanguage(text: string): string | undefined {
+	const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+	if (words.length < MIN_WORDS) return undefined;
+
+	let best: string | undefined;
+	let bestScore = 0;
+	let runnerUp = 0;
+	for (const language of Object.keys(COMMON_WORDS)) {
+		const common = COMMON_WORDS[language].split(" ");
+		const score = words.filter((word) => common.includes(word)).length;
+		if (score > bestScore) {
+			runnerUp = bestScore;
+			bestScore = score;
+			best = language;
+		} else if (score > runnerUp) {
+			runnerUp = score;
+		}
+	}
+	// A tie, or a single common word, says too little
+	return bestScore >= 2 && bestScore > runnerUp ? best : undefined;
+}
+
+/**
+ * Guesses the language of `text` as a BCP 47 tag, e.g. "de" or "ja".
+ * Scripts used by one language decide on their own; for the Latin
+ * alphabet common words are counted. Returns undefined when the text is
+ * too short or mixed to tell.
+ */
+export function detectLanguage(text: string): string | undefined {
+	const latin = count(text, LATIN);
+	const kana = count(text, KANA);
+	const han = count(text, HAN);
+
+	let best = "latin";
+	let bestCount = latin;
+	// Japanese mixes kana with Han characters; Chinese has no kana
+	if (kana + han > bestCount) {
+		best = kana > 0 ? "ja" : "zh";
+		bestCount = kana + han;
+	}
+	for (const [language, pattern] of SCRIPTS) {
+		const letters = count(text, pattern);
+		if (letters > bestCount) {
+			best = language;
+			bestCount = letters;
+		}
+	}
+
+	if (bestCount === 0) return undefined;
+	return best === "latin" ? detectLatinLanguage(text) : best;
+}
+
+/** The language part of a tag, e.g. "pt" for "pt-BR" */
+function primaryLanguage(tag: string): string {
+	return tag.toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * The voice mapped to `language`: one for the exact tag if there is one,
+ * otherwise one for its primary language.
+ */
+export function findLanguageVoice(
+	mappings: LanguageVoice[],
+	language: string
+): LanguageVoice | undefined {
+	const tag = language.toLowerCase();
+	return (
+		mappings.find((mapping) => mapping.language.toLowerCase() === tag) ??
+		mappings.find(
+			(mapping) =>
+				primaryLanguage(mapping.language) === primaryLanguage(tag)
+		)
+	);
+}
+
+/** True when two tags name the same language, ignoring the region */
+export function sameLanguage(a: string, b: string): boolean {
+	return primaryLanguage(a) === primaryLanguage(b);
+}
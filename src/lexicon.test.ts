@@ -0,0 +1,149 @@
+import { compileLexicon, parseLexiconNote, respell, toSsml } from "./lexicon";
+import { SpeechChunk } from "./preprocess";
+
+/** A chunk spoken exactly as written, starting at source offset 0 */
+function chunkOf(text: string): SpeechChunk {
+	return {
+		kind: "paragraph",
+		level: 0,
+		text,
+		offsets: text.split("").map((_, i) => i),
+		from: 0,
+		to: text.length,
+	};
+}
+
+describe("compileLexicon", () => {
+	test("splits what to say into respelling and IPA", () => {
+		const [both, ipaOnly] = compileLexicon([
+			{ match: "Nginx", say: "engine x /ˈɛndʒɪn ɛks/" },
+			{ match: "GIF", say: "/dʒɪf/" },
+		]);
+
+		expect(both.respelling).toBe("engine x");
+		expect(both.ipa).toBe("ˈɛndʒɪn ɛks");
+		expect(ipaOnly.respelling).toBe("");
+		expect(ipaOnly.ipa).toBe("dʒɪf");
+	});
+
+	test("matches plain entries as whole words only", () => {
+		const [{ pattern }] = compileLexicon([{ match: "cat", say: "kat" }]);
+
+		expect("cat, concat and cats".match(pattern)).toEqual(["cat"]);
+	});
+
+	test("reads /pattern/flags entries as regular expressions", () => {
+		const [{ pattern }] = compileLexicon([
+			{ match: "/v(\\d+)/i", say: "version $1" },
+		]);
+
+		expect(pattern.flags).toBe("gi");
+		expect("V2 and v10".match(pattern)).toEqual(["V2", "v10"]);
+	});
+
+	test("skips empty and invalid entries", () => {
+		const warn = jest.spyOn(console, "warn").mockImplementation();
+		expect(
+			compileLexicon([
+				{ match: "", say: "nothing" },
+				{ match: "word", say: " " },
+				{ match: "/(/", say: "broken" },
+			])
+		).toEqual([]);
+		warn.mockRestore();
+	});
+});
+
+describe("parseLexiconNote", () => {
+	test("reads list items and table rows, skipping headers", () => {
+		const note = [
+			"# Pronunciations",
+			"",
+			"- kubectl: cube control",
+			"- SQL: sequel /ˈsiːkwəl/",
+			"",
+			"| Word | Say |",
+			"| --- | --- |",
+			"| a\\|b | a or b |",
+			"| only one cell |",
+		].join("\n");
+
+		expect(parseLexiconNote(note)).toEqual([
+			{ match: "kubectl", say: "cube control" },
+			{ match: "SQL", say: "sequel /ˈsiːkwəl/" },
+			{ match: "a|b", say: "a or b" },
+		]);
+	});
+});
+
+describe("respell", () => {
+	test("replaces matches and maps the new words to the source word", () => {
+		const pronunciations = compileLexicon([
+			{ match: "k8s", say: "kubernetes cluster" },
+		]);
+		const [chunk] = respell([chunkOf("Run k8s now")], pronunciations);
+
+		expect(chunk.text).toBe("Run kubernetes cluster now");
+		// Each new word starts where the source word does, and goes on to
+		// where it ends
+		const cluster = chunk.text.indexOf("cluster");
+		expect(chunk.offsets[4]).toBe(4);
+		expect(chunk.offsets[5]).toBe(6);
+		expect(chunk.offsets[cluster]).toBe(4);
+		expect(chunk.offsets[cluster + 1]).toBe(6);
+		expect(chunk.offsets[chunk.text.indexOf("now")]).toBe(8);
+	});
+
+	test("expands regular expression groups", () => {
+		const pronunciations = compileLexicon([
+			{ match: "/v(\\d+)/", say: "version $1" },
+		]);
+
+		expect(respell([chunkOf("Use v2")], pronunciations)[0].text).toBe(
+			"Use version 2"
+		);
+	});
+
+	test("leaves chunks without matches untouched", () => {
+		const chunk = chunkOf("Nothing here");
+		const pronunciations = compileLexicon([{ match: "x", say: "ex" }]);
+
+		expect(respell([chunk], pronunciations)[0]).toBe(chunk);
+	});
+});
+
+describe("toSsml", () => {
+	test("wraps words with IPA in phoneme tags", () => {
+		const pronunciations = compileLexicon([
+			{ match: "GIF", say: "/dʒɪf/" },
+		]);
+
+		expect(toSsml("A GIF file", pronunciations)).toBe(
+			'A <phoneme alphabet="ipa" ph="dʒɪf">GIF</phoneme> file'
+		);
+	});
+
+	test("tags the respelling once the text has been respelled", () => {
+		const pronunciations = compileLexicon([
+			{ match: "Nginx", say: "engine x /ˈɛndʒɪn ɛks/" },
+		]);
+
+		expect(toSsml("Use engine x", pronunciations)).toBe(
+			'Use <phoneme alphabet="ipa" ph="ˈɛndʒɪn ɛks">engine x</phoneme>'
+		);
+	});
+
+	test("escapes text and attribute values", () => {
+		const pronunciations = compileLexicon([{ match: "R&D", say: '/a"r/' }]);
+
+		expect(toSsml("R&D <team>", pronunciations)).toBe(
+			'<phoneme alphabet="ipa" ph="a&quot;r">R&amp;D</phoneme> &lt;team&gt;'
+		);
+	});
+
+	test("returns null when nothing has IPA", () => {
+		const pronunciations = compileLexicon([{ match: "a", say: "ay" }]);
+
+		expect(toSsml("a b", pronunciations)).toBeNull();
+	});
+});
@@ -0,0 +1,236 @@
+import { SpeechChunk } from "./preprocess";
+
+/**
+ * A word the voices get wrong, and how to say it. `match` is a whole word
+ * or phrase, or a regular expression written as `/pattern/flags`. `say`
+ * is a respelling, an IPA transcription written as `/.../`, or both, e.g.
+ * `win /wɪn/`.
+ */
+export interface LexiconEntry {
+	match: string;
+	say: string;
+}
+
+/** A lexicon entry ready to apply */
+export interface Pronunciation {
+	pattern: RegExp;
+	/** Replaces the match for every voice; empty to keep the word */
+	respelling: string;
+	/** Sent as an SSML phoneme to services that read SSML */
+	ipa?: string;
+}
+
+const WORD_CHAR = "[\\p{L}\\p{N}_]";
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Matches `text` as a whole word, never as part of a longer one */
+function wordPattern(text: string): RegExp {
+	return new RegExp(
+		`(?<!${WORD_CHAR})${escapeRegExp(text)}(?!${WORD_CHAR})`,
+		"gu"
+	);
+}
+
+function parsePattern(match: string): RegExp | null {
+	const regex = /^\/(.+)\/([a-z]*)$/.exec(match);
+	if (!regex) return wordPattern(match);
+	try {
+		const flags = regex[2].includes("g") ? regex[2] : regex[2] + "g";
+		return new RegExp(regex[1], flags);
+	} catch (error) {
+		console.warn(`Invalid pronunciation pattern ${match}:`, error);
+		return null;
+	}
+}
+
+/** Turns lexicon entries into pronunciations, skipping invalid ones */
+export function compileLexicon(entries: LexiconEntry[]): Pronunciation[] {
+	const pronunciations: Pronunciation[] = [];
+	for (const entry of entries) {
+		const match = entry.match.trim();
+		const say = /^(.*?)\s*(?:\/([^/]+)\/)?\s*$/.exec(entry.say.trim());
+		const pattern = match ? parsePattern(match) : null;
+		if (!pattern || !say || (!say[1] && !say[2])) continue;
+		pronunciations.push({
+			pattern,
+			respelling: say[1],
+			ipa: say[2],
+		});
+	}
+	return pronunciations;
+}
+
+/** Splits a Markdown table row into its cells, keeping escaped pipes */
+function tableCells(line: string): string[] {
+	return line
+		.trim()
+		.replace(/^\||\|$/g, "")
+		.split(/(?<!\\)\|/)
+		.map((cell) => cell.replace(/\\\|/g, "|").trim());
+}
+
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const LIST_ENTRY = /^\s*[-*+]\s+(.+?):\s+(.+)$/;
+
+/**
+ * Reads a lexicon note: list items such as `- kubectl: cube control`, or
+ * the rows of a two-column table. Header rows are skipped.
+ */
+export function parseLexiconNote(markdown: string): LexiconEntry[] {
+	const entries: LexiconEntry[] = [];
+	const lines = markdown.split(/\r?\n/);
+	lines.forEach((line, i) => {
+		const item = LIST_ENTRY.exec(line);
+		if (item) {
+			entries.push({ match: item[1], say: item[2] });
+			return;
+		}
+		if (
+			!/^\s*\|/.test(line) ||
+			TABLE_SEPARATOR.test(line) ||
+			TABLE_SEPARATOR.test(lines[i + 1] ?? "")
+		) {
+			return;
+		}
+		const [match, say] = tableCells(line);
+		if (match && say) entries.push({ match, say });
+	});
+	return entries;
+}
+
+/**
+ * Replaces the words of `chunk` that have a respelling. Every word of a
+ * respelling maps back to the whole source word, so highlighting still
+ * lands on what is written in the note.
+ */
+function respellChunk(
+	chunk: SpeechChunk,
+	pronunciation: Pronunciation
+): SpeechChunk {
+	const { pattern, respelling } = pronunciation;
+	const { text, offsets } = chunk;
+	const single = new RegExp(pattern.source, pattern.flags.replace("g", ""));
+
+	let spoken = "";
+	let spokenOffsets: number[] = [];
+	let end = 0;
+	let matched = false;
+	let match: RegExpExecArray | null;
+	pattern.lastIndex = 0;
+	while ((match = pattern.exec(text))) {
+		if (!match[0]) {
+			pattern.lastIndex++;
+			continue;
+		}
+		matched = true;
+		const said = match[0].replace(single, respelling);
+		const first = offsets[match.index];
+		const last = offsets[match.index + match[0].length - 1];
+		spoken += text.slice(end, match.index) + said;
+		spokenOffsets = spokenOffsets.concat(offsets.slice(end, match.index));
+		for (let i = 0; i < said.length; i++) {
+			spokenOffsets.push(
+				i === 0 || /\s/.test(said[i - 1]) ? first : last
+			);
+		}
+		end = match.index + match[0].length;
+	}
+	if (!matched) return chunk;
+
+	return {
+		...chunk,
+		text: spoken + text.slice(end),
+		offsets: spokenOffsets.concat(offsets.slice(end)),
+	};
+}
+
+/** Applies the respellings of `pronunciations` to every chunk, in order */
+export function respell(
+	chunks: SpeechChunk[],
+	pronunciations: Pronunciation[]
+): SpeechChunk[] {
+	return chunks.map((chunk) =>
+		pronunciations.reduce(
+			(respelled, pronunciation) =>
+				pronunciation.respelling
+					? respellChunk(respelled, pronunciation)
+					: respelled,
+			chunk
+		)
+	);
+}
+
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+/** A run of text, with the IPA to say it with once a lexicon entry matched */
+interface SsmlPart {
+	text: string;
+	ipa?: string;
+}
+
+/** Splits `part` around the matches of `pattern`, which say `ipa` */
+function tagMatches(part: SsmlPart, pattern: RegExp, ipa: string): SsmlPart[] {
+	const parts: SsmlPart[] = [];
+	let end = 0;
+	let match: RegExpExecArray | null;
+	pattern.lastIndex = 0;
+	while ((match = pattern.exec(part.text))) {
+		if (!match[0]) {
+			pattern.lastIndex++;
+			continue;
+		}
+		if (match.index > end) {
+			parts.push({ text: part.text.slice(end, match.index) });
+		}
+		parts.push({ text: match[0], ipa });
+		end = match.index + match[0].length;
+	}
+	if (end < part.text.length) parts.push({ text: part.text.slice(end) });
+	return parts;
+}
+
+/**
+ * Marks the words of `text` that have an IPA transcription with SSML
+ * phoneme tags, after respelling, and escapes the rest for XML. Returns
+ * null when there are none, so the plain text can be sent as it is.
+ */
+export function toSsml(
+	text: string,
+	pronunciations: Pronunciation[]
+): string | null {
+	let parts: SsmlPart[] = [{ text }];
+	for (const { pattern, respelling, ipa } of pronunciations) {
+		if (!ipa) continue;
+		// After respelling, the respelling is what is in the text
+		const spoken = respelling ? wordPattern(respelling) : pattern;
+		let next: SsmlPart[] = [];
+		for (const part of parts) {
+			// Words tagged for an earlier entry keep their tag
+			next = next.concat(
+				part.ipa === undefined ? tagMatches(part, spoken, ipa) : [part]
+			);
+		}
+		parts = next;
+	}
+	if (parts.every((part) => part.ipa === undefined)) return null;
+
+	const tag = (part: SsmlPart) =>
+		`<phoneme alphabet="ipa" ph="${escapeXml(part.ipa ?? "")}">${escapeXml(
+			part.text
+		)}</phoneme>`;
+	return parts
+		.map((part) =>
+			part.ipa === undefined ? escapeXml(part.text) : tag(part)
+		)
+		.join("");
+}
@@ -0,0 +1,134 @@
+import { DataAdapter, debounce, normalizePath } from "obsidian";
+
+/** Where reading stopped in a note, as a source offset */
+export interface ListeningPosition {
+	offset: number;
+	updated: number;
+}
+
+/** A named spot in a note to come back to */
+export interface Bookmark {
+	name: string;
+	/** Source offset of the word the bookmark was placed at */
+	offset: number;
+	/** The words read there, to recognise the bookmark by */
+	excerpt: string;
+	created: number;
+}
+
+interface NoteRecord {
+	position?: ListeningPosition;
+	bookmarks: Bookmark[];
+}
+
+/**
+ * Per-note resume positions and bookmarks, kept in a JSON file in the
+ * plugin folder and keyed by file path. Writes are batched, since the
+ * position changes with every paragraph.
+ */
+export class ListeningStore {
+	private notes: Record<string, NoteRecord> | null = null;
+	private requestSave = debounce(
+		() =>
+			this.save().catch((error) =>
+				console.error("Error saving listening positions:", error)
+			),
+		2000,
+		true
+	);
+
+	constructor(private adapter: DataAdapter, private path: string) {}
+
+	private async load(): Promise<Record<string, NoteRecord>> {
+		if (this.notes) return this.notes;
+
+		let notes: Record<string, NoteRecord> = {};
+		try {
+			if (await this.adapter.exists(this.path)) {
+				notes = JSON.parse(await this.adapter.read(this.path));
+			}
+		} catch (error) {
+			console.error("Error reading listening positions:", error);
+		}
+		this.notes = notes;
+		return notes;
+	}
+
+	/** Writes pending changes now, e.g. when the plugin unloads */
+	async save() {
+		if (!this.notes) return;
+		await this.adapter.write(
+			normalizePath(this.path),
+			JSON.stringify(this.notes)
+		);
+	}
+
+	private async getRecord(path: string): Promise<NoteRecord> {
+		const notes = await this.load();
+		if (!notes[path]) notes[path] = { bookmarks: [] };
+		return notes[path];
+	}
+
+	/** Drops records with nothing left in them */
+	private prune(path: string) {
+		const record = this.notes?.[path];
+		if (record && !record.position && record.bookmarks.length === 0) {
+			delete this.notes?.[path];
+		}
+	}
+
+	async getPosition(path: string): Promise<ListeningPosition | null> {
+		const notes = await this.load();
+		return notes[path]?.position ?? null;
+	}
+
+	async setPosition(path: string, offset: number) {
+		const record = await this.getRecord(path);
+		record.position = { offset, updated: Date.now() };
+		this.requestSave();
+	}
+
+	async clearPosition(path: string) {
+		const record = await this.getRecord(path);
+		delete record.position;
+		this.prune(path);
+		this.requestSave();
+	}
+
+	async getBookmarks(path: string): Promise<Bookmark[]> {
+		const notes = await this.load();
+		const bookmarks = notes[path]?.bookmarks ?? [];
+		return bookmarks.slice().sort((a, b) => a.offset - b.offset);
+	}
+
+	async addBookmark(path: string, bookmark: Bookmark) {
+		const record = await this.getRecord(path);
+		record.bookmarks.push(bookmark);
+		this.requestSave();
+	}
+
+	async removeBookmark(path: string, bookmark: Bookmark) {
+		const record = await this.getRecord(path);
+		record.bookmarks = record.bookmarks.filter(
+			(candidate) => candidate.created !== bookmark.created
+		);
+		this.prune(path);
+		this.requestSave();
+	}
+
+	/** Moves a note's data along when the note is renamed or moved */
+	async rename(oldPath: string, newPath: string) {
+		const notes = await this.load();
+		if (!notes[oldPath]) return;
+		notes[newPath] = notes[oldPath];
+		delete notes[oldPath];
+		this.requestSave();
+	}
+
+	async delete(path: string) {
+		const notes = await this.load();
+		if (!notes[path]) return;
+		delete notes[path];
+		this.requestSave();
+	}
+}
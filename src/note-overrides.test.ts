@@ -0,0 +1,62 @@
+import { NO_OVERRIDES, readNoteOverrides } from "./note-overrides";
+
+describe("readNoteOverrides", () => {
+	test("changes nothing without frontmatter", () => {
+		expect(readNoteOverrides(undefined)).toBe(NO_OVERRIDES);
+		expect(readNoteOverrides({ title: "Notes" })).toEqual(NO_OVERRIDES);
+	});
+
+	test("reads every tts key", () => {
+		expect(
+			readNoteOverrides({
+				"tts-service": "openai",
+				"tts-voice": " nova ",
+				"tts-speed": 1.2,
+				"tts-language": "pt-BR",
+				"tts-skip-sections": ["References", "Changelog"],
+			})
+		).toEqual({
+			enabled: true,
+			service: "openai",
+			voice: "nova",
+			speed: 1.2,
+			language: "pt-BR",
+			skipSections: ["References", "Changelog"],
+		});
+	});
+
+	test("lets a note opt out of being read", () => {
+		for (const value of [false, "false", "No", "off"]) {
+			expect(readNoteOverrides({ tts: value }).enabled).toBe(false);
+		}
+		for (const value of [true, "yes", null]) {
+			expect(readNoteOverrides({ tts: value }).enabled).toBe(true);
+		}
+	});
+
+	test("keeps the speed within what the player supports", () => {
+		expect(readNoteOverrides({ "tts-speed": "3" }).speed).toBe(2);
+		expect(readNoteOverrides({ "tts-speed": 0.1 }).speed).toBe(0.5);
+		expect(
+			readNoteOverrides({ "tts-speed": "fast" }).speed
+		).toBeUndefined();
+	});
+
+	test("reads sections to skip from a comma-separated string", () => {
+		expect(
+			readNoteOverrides({ "tts-skip-sections": "References, , Links" })
+				.skipSections
+		).toEqual(["References", "Links"]);
+	});
+
+	test("ignores values of the wrong type", () => {
+		expect(
+			readNoteOverrides({
+				"tts-service": { id: "openai" },
+				"tts-voice": "  ",
+				"tts-language": ["de"],
+				"tts-skip-sections": 3,
+			})
+		).toEqual(NO_OVERRIDES);
+	});
+});
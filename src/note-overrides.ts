@@ -0,0 +1,64 @@
+import { FrontMatterCache } from "obsidian";
+
+/**
+ * Settings a note can change for itself through frontmatter keys:
+ *
+ * ```yaml
+ * tts: false                 # never read this note aloud
+ * tts-service: openai        # provider id or name
+ * tts-voice: nova
+ * tts-speed: 1.2
+ * tts-language: de
+ * tts-skip-sections: [References, Changelog]
+ * ```
+ */
+export interface NoteOverrides {
+	/** False when the note opted out of being read */
+	enabled: boolean;
+	service?: string;
+	voice?: string;
+	speed?: number;
+	/** BCP 47 language tag, e.g. "de" or "pt-BR" */
+	language?: string;
+	/** Headings whose sections are left out, compared case-insensitively */
+	skipSections: string[];
+}
+
+export const NO_OVERRIDES: NoteOverrides = { enabled: true, skipSections: [] };
+
+function readString(value: unknown): string | undefined {
+	if (typeof value === "number") return String(value);
+	if (typeof value !== "string") return undefined;
+	return value.trim() || undefined;
+}
+
+function readList(value: unknown): string[] {
+	const items = Array.isArray(value)
+		? value
+		: typeof value === "string"
+		? value.split(",")
+		: [];
+	return items
+		.map((item) => readString(item))
+		.filter((item): item is string => item !== undefined);
+}
+
+/** Reads the `tts` keys of a note's frontmatter; unknown values are ignored */
+export function readNoteOverrides(
+	frontmatter: FrontMatterCache | undefined
+): NoteOverrides {
+	if (!frontmatter) return NO_OVERRIDES;
+
+	const optOut = frontmatter["tts"];
+	const speed = parseFloat(readString(frontmatter["tts-speed"]) ?? "");
+	return {
+		enabled:
+			optOut !== false &&
+			!/^(false|no|off)$/i.test(readString(optOut) ?? ""),
+		service: readString(frontmatter["tts-service"]),
+		voice: readString(frontmatter["tts-voice"]),
+		speed: isNaN(speed) ? undefined : Math.min(Math.max(speed, 0.5), 2),
+		language: readString(frontmatter["tts-language"]),
+		skipSections: readList(frontmatter["tts-skip-sections"]),
+	};
+}
@@ -0,0 +1,325 @@
+import {
+	DropdownComponent,
+	Events,
+	ItemView,
+	setIcon,
+	SliderComponent,
+	WorkspaceLeaf,
+} from "obsidian";
+import { splitSentences } from "./sentences";
+import { TextToSpeechSettings } from "./settings";
+
+export const PLAYER_VIEW_TYPE = "note-reader-player";
+
+/** What the player shows, taken from the plugin on every refresh */
+export interface PlayerState {
+	/** Name of the note being read, or null when nothing has been read */
+	title: string | null;
+	paragraphs: string[];
+	paragraphIndex: number;
+	/** Spoken offset of the word being read in the current paragraph */
+	offset: number;
+	speaking: boolean;
+	paused: boolean;
+	loading: boolean;
+	/** Seconds; estimated for paragraphs that have not been synthesized */
+	elapsed: number;
+	duration: number;
+	/** The playback speed, which the note being read may set itself */
+	speed: number;
+	/** Language of each paragraph, for splitting the transcript */
+	languages: Array<string | undefined>;
+}
+
+/** The parts of the plugin the player drives */
+export interface PlayerHost {
+	settings: TextToSpeechSettings;
+	/** Triggers "change" whenever the playback state changes */
+	playerEvents: Events;
+	getPlayerState(): PlayerState;
+	playActiveNote(evt: MouseEvent): Promise<void>;
+	togglePause(): Promise<void>;
+	stopReading(): void;
+	skipToParagraph(direction: "next" | "previous"): Promise<void>;
+	seekTo(paragraphIndex: number, offset: number): Promise<void>;
+	seekToTime(seconds: number): Promise<void>;
+	setPlaybackSpeed(speed: number): Promise<void>;
+	setPlaybackVoice(voice: string): Promise<void>;
+	getAvailableVoices(): Promise<Array<{ id: string; name: string }>>;
+}
+
+function formatTime(seconds: number): string {
+	const total = Math.max(0, Math.round(seconds));
+	const minutes = Math.floor(total / 60);
+	const rest = total % 60;
+	return `${minutes}:${rest < 10 ? "0" : ""}${rest}`;
+}
+
+/**
+ * Sidebar panel with the note being read, a transcript that follows the
+ * playback, a progress bar to scrub with and controls that take effect
+ * while reading.
+ */
+export class PlayerView extends ItemView {
+	private titleEl: HTMLElement;
+	private playButton: HTMLElement;
+	private progressEl: HTMLElement;
+	private progressFillEl: HTMLElement;
+	private elapsedEl: HTMLElement;
+	private remainingEl: HTMLElement;
+	private speedSlider: SliderComponent;
+	private speedEl: HTMLElement;
+	private voiceDropdown: DropdownComponent;
+	private transcriptEl: HTMLElement;
+	// The paragraphs the transcript was built from, to rebuild it on change
+	private shownParagraphs: string[] | null = null;
+	private paragraphEls: HTMLElement[] = [];
+	private sentenceEls: Array<Array<{ el: HTMLElement; start: number }>> = [];
+	private currentParagraph = -1;
+	private currentSentence: HTMLElement | null = null;
+	// Voices are listed per voice service
+	private voicesFor: string | null = null;
+
+	constructor(leaf: WorkspaceLeaf, private host: PlayerHost) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return PLAYER_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Note Reader";
+	}
+
+	getIcon(): string {
+		return "audio-file";
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("tts-player");
+
+		this.titleEl = contentEl.createDiv({ cls: "tts-player-title" });
+
+		const controlsEl = contentEl.createDiv({ cls: "tts-player-controls" });
+		this.addButton(controlsEl, "skip-back", "Previous paragraph", () =>
+			this.host.skipToParagraph("previous")
+		);
+		this.playButton = this.addButton(controlsEl, "play", "Play", (evt) =>
+			this.host.getPlayerState().speaking
+				? this.host.togglePause()
+				: this.host.playActiveNote(evt)
+		);
+		this.addButton(controlsEl, "square", "Stop", () =>
+			this.host.stopReading()
+		);
+		this.addButton(controlsEl, "skip-forward", "Next paragraph", () =>
+			this.host.skipToParagraph("next")
+		);
+
+		this.progressEl = contentEl.createDiv({ cls: "tts-player-progress" });
+		this.progressFillEl = this.progressEl.createDiv({
+			cls: "tts-player-progress-fill",
+		});
+		this.registerDomEvent(this.progressEl, "click", (evt) => {
+			const state = this.host.getPlayerState();
+			if (!state.speaking || state.duration <= 0) return;
+			const rect = this.progressEl.getBoundingClientRect();
+			const fraction = (evt.clientX - rect.left) / rect.width;
+			this.host.seekToTime(
+				Math.min(Math.max(fraction, 0), 1) * state.duration
+			);
+		});
+		const timesEl = contentEl.createDiv({ cls: "tts-player-times" });
+		this.elapsedEl = timesEl.createSpan();
+		this.remainingEl = timesEl.createSpan();
+
+		const speedEl = contentEl.createDiv({ cls: "tts-player-setting" });
+		speedEl.createSpan({ text: "Speed" });
+		this.speedSlider = new SliderComponent(speedEl)
+			.setLimits(0.5, 2, 0.1)
+			.setValue(this.host.settings.playbackSpeed)
+			.setDynamicTooltip()
+			.onChange((value) => {
+				this.speedEl.setText(`${value.toFixed(1)}x`);
+				this.host.setPlaybackSpeed(value);
+			});
+		this.speedEl = speedEl.createSpan({ cls: "tts-player-speed" });
+
+		const voiceEl = contentEl.createDiv({ cls: "tts-player-setting" });
+		voiceEl.createSpan({ text: "Voice" });
+		this.voiceDropdown = new DropdownComponent(voiceEl).onChange((value) =>
+			this.host.setPlaybackVoice(value)
+		);
+
+		this.transcriptEl = contentEl.createDiv({
+			cls: "tts-player-transcript",
+		});
+
+		this.registerEvent(
+			this.host.playerEvents.on("change", () => this.refresh())
+		);
+		// The playhead moves without state changes, so poll it too
+		this.registerInterval(window.setInterval(() => this.refresh(), 250));
+		this.refresh();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+		this.shownParagraphs = null;
+	}
+
+	private addButton(
+		parent: HTMLElement,
+		icon: string,
+		label: string,
+		onClick: (evt: MouseEvent) => unknown
+	): HTMLElement {
+		const button = parent.createDiv({
+			cls: "clickable-icon tts-player-button",
+			attr: { "aria-label": label },
+		});
+		setIcon(button, icon);
+		this.registerDomEvent(button, "click", (evt) => onClick(evt));
+		return button;
+	}
+
+	private refresh() {
+		const state = this.host.getPlayerState();
+		const { settings } = this.host;
+
+		this.titleEl.setText(state.title ?? "Nothing is being read");
+
+		const playing = state.speaking && !state.paused;
+		const label = state.loading ? "Loading..." : playing ? "Pause" : "Play";
+		if (this.playButton.getAttribute("aria-label") !== label) {
+			this.playButton.setAttribute("aria-label", label);
+			setIcon(
+				this.playButton,
+				state.loading ? "loader" : playing ? "pause" : "play"
+			);
+		}
+		this.playButton.toggleClass("is-loading", state.loading);
+
+		const fraction =
+			state.speaking && state.duration > 0
+				? state.elapsed / state.duration
+				: 0;
+		this.progressFillEl.style.width = `${Math.min(fraction, 1) * 100}%`;
+		this.progressEl.toggleClass("is-disabled", !state.speaking);
+		this.elapsedEl.setText(formatTime(state.speaking ? state.elapsed : 0));
+		this.remainingEl.setText(
+			`-${formatTime(
+				state.speaking ? state.duration - state.elapsed : 0
+			)}`
+		);
+
+		if (this.speedSlider.getValue() !== state.speed) {
+			this.speedSlider.setValue(state.speed);
+		}
+		this.speedEl.setText(`${state.speed.toFixed(1)}x`);
+
+		if (this.voicesFor !== settings.voiceService) {
+			this.voicesFor = settings.voiceService;
+			this.loadVoices();
+		} else if (this.voiceDropdown.getValue() !== settings.playbackVoice) {
+			this.voiceDropdown.setValue(settings.playbackVoice);
+		}
+
+		this.renderTranscript(state);
+	}
+
+	private async loadVoices() {
+		const voices = await this.host.getAvailableVoices();
+		const selectEl = this.voiceDropdown.selectEl;
+		selectEl.empty();
+		for (const voice of voices) {
+			this.voiceDropdown.addOption(voice.id, voice.name);
+		}
+		this.voiceDropdown.setValue(this.host.settings.playbackVoice);
+	}
+
+	/** Builds the transcript once per read, then moves the marks along */
+	private renderTranscript(state: PlayerState) {
+		if (!state.speaking) {
+			if (this.shownParagraphs !== null) {
+				this.shownParagraphs = null;
+				this.transcriptEl.empty();
+			}
+			if (this.transcriptEl.childElementCount === 0) {
+				this.transcriptEl.createDiv({
+					cls: "tts-player-empty",
+					text: "Play a note to follow along here.",
+				});
+			}
+			return;
+		}
+
+		if (this.shownParagraphs !== state.paragraphs) {
+			this.buildTranscript(state.paragraphs, state.languages);
+		}
+
+		if (this.currentParagraph !== state.paragraphIndex) {
+			this.paragraphEls[this.currentParagraph]?.removeClass("is-current");
+			this.currentParagraph = state.paragraphIndex;
+			const paragraphEl = this.paragraphEls[state.paragraphIndex];
+			paragraphEl?.addClass("is-current");
+			paragraphEl?.scrollIntoView({ block: "nearest" });
+		}
+
+		const sentences = this.sentenceEls[state.paragraphIndex] ?? [];
+		let sentence: HTMLElement | null = null;
+		for (const candidate of sentences) {
+			if (candidate.start > state.offset) break;
+			sentence = candidate.el;
+		}
+		if (sentence !== this.currentSentence) {
+			this.currentSentence?.removeClass("is-current");
+			sentence?.addClass("is-current");
+			this.currentSentence = sentence;
+		}
+	}
+
+	private buildTranscript(
+		paragraphs: string[],
+		languages: Array<string | undefined>
+	) {
+		this.shownParagraphs = paragraphs;
+		this.transcriptEl.empty();
+		this.paragraphEls = [];
+		this.sentenceEls = [];
+		this.currentParagraph = -1;
+		this.currentSentence = null;
+
+		paragraphs.forEach((paragraph, paragraphIndex) => {
+			const paragraphEl = this.transcriptEl.createEl("p", {
+				cls: "tts-player-paragraph",
+			});
+			let end = 0;
+			const sentenceEls = splitSentences(
+				paragraph,
+				languages[paragraphIndex]
+			).map((sentence) => {
+				// Keep the spaces between sentences
+				paragraphEl.appendText(paragraph.slice(end, sentence.start));
+				end = sentence.start + sentence.length;
+				const el = paragraphEl.createSpan({
+					cls: "tts-player-sentence",
+					text: paragraph.slice(sentence.start, end),
+				});
+				el.addEventListener("click", (evt) => {
+					evt.stopPropagation();
+					this.host.seekTo(paragraphIndex, sentence.start);
+				});
+				return { el, start: sentence.start };
+			});
+			paragraphEl.addEventListener("click", () =>
+				this.host.seekTo(paragraphIndex, 0)
+			);
+			this.paragraphEls.push(paragraphEl);
+			this.sentenceEls.push(sentenceEls);
+		});
+	}
+}
@@ -0,0 +1,139 @@
+import { PrefetchQueue } from "./prefetch";
+
+interface Production {
+	signal: AbortSignal;
+	resolve(value: string): void;
+	reject(error: Error): void;
+}
+
+/** Items being produced, by index, finished by the test */
+let productions: Map<number, Production>;
+let disposed: string[];
+
+function createQueue(count = 10, lookAhead = 2, concurrency = 2) {
+	return new PrefetchQueue<string>({
+		count,
+		lookAhead,
+		concurrency,
+		produce: (index, signal) =>
+			new Promise((resolve, reject) => {
+				productions.set(index, { signal, resolve, reject });
+			}),
+		dispose: (value) => disposed.push(value),
+	});
+}
+
+/** Lets promise callbacks run */
+function settle() {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function started(): number[] {
+	return Array.from(productions.keys());
+}
+
+beforeEach(() => {
+	productions = new Map();
+	disposed = [];
+});
+
+describe("PrefetchQueue", () => {
+	test("produces the requested item and the ones after it", async () => {
+		const queue = createQueue(10, 2, 3);
+		const first = queue.get(0);
+
+		expect(started()).toEqual([0, 1, 2]);
+		productions.get(0)?.resolve("zero");
+		expect(await first).toBe("zero");
+	});
+
+	test("runs no more items at once than allowed", async () => {
+		const queue = createQueue(10, 3, 2);
+		queue.get(0);
+		expect(started()).toEqual([0, 1]);
+
+		productions.get(1)?.resolve("one");
+		await settle();
+		expect(started()).toEqual([0, 1, 2]);
+		expect(queue.isReady(1)).toBe(true);
+		expect(queue.isReady(2)).toBe(false);
+	});
+
+	test("starts a requested item even when every slot is taken", () => {
+		const queue = createQueue(10, 3, 1);
+		queue.get(0);
+		queue.get(2);
+
+		expect(started()).toEqual([0, 2]);
+	});
+
+	test("stops at the last item", () => {
+		createQueue(2, 5, 5).get(0);
+
+		expect(started()).toEqual([0, 1]);
+	});
+
+	test("hands over items produced ahead of time", async () => {
+		const queue = createQueue();
+		queue.get(0);
+		productions.get(1)?.resolve("one");
+		await settle();
+
+		expect(await queue.get(1)).toBe("one");
+		expect(disposed).toEqual([]);
+	});
+
+	test("cancels and disposes items skipped over", async () => {
+		const queue = createQueue(10, 2, 3);
+		queue.get(0);
+		productions.get(1)?.resolve("one");
+		await settle();
+
+		queue.get(5);
+		expect(productions.get(1)?.signal.aborted).toBe(true);
+		expect(productions.get(2)?.signal.aborted).toBe(true);
+		expect(disposed).toEqual(["one"]);
+
+		// Items finishing after they were skipped are disposed as well
+		productions.get(2)?.resolve("two");
+		await settle();
+		expect(disposed).toEqual(["one", "two"]);
+	});
+
+	test("cancels everything when stopped", async () => {
+		const queue = createQueue();
+		const first = queue.get(0);
+		productions.get(1)?.resolve("one");
+		await settle();
+
+		queue.cancel();
+
+		expect(productions.get(2)?.signal.aborted).toBe(true);
+		expect(disposed).toEqual(["one"]);
+		// The item already handed over belongs to the caller
+		expect(productions.get(0)?.signal.aborted).toBe(false);
+		productions.get(0)?.resolve("zero");
+		expect(await first).toBe("zero");
+		expect(disposed).toEqual(["one"]);
+	});
+
+	test("passes failures to whoever asks for the item", async () => {
+		const queue = createQueue();
+		queue.get(0);
+		productions.get(1)?.reject(new Error("HTTP 500"));
+		await settle();
+
+		expect(queue.isReady(1)).toBe(true);
+		await expect(queue.get(1)).rejects.toThrow("HTTP 500");
+	});
+
+	test("keeps going after a failure", async () => {
+		const queue = createQueue(10, 2, 1);
+		const first = queue.get(0).catch((error) => error);
+		productions.get(0)?.reject(new Error("HTTP 500"));
+		await settle();
+
+		expect((await first).message).toBe("HTTP 500");
+		expect(started()).toEqual([0, 1]);
+	});
+});
@@ -0,0 +1,144 @@
+export interface PrefetchOptions<T> {
+	/** Number of items, e.g. paragraphs in the note */
+	count: number;
+	/** How many items after the requested one to keep in flight */
+	lookAhead: number;
+	/** Upper bound on items being produced at the same time */
+	concurrency: number;
+	produce(index: number, signal: AbortSignal): Promise<T>;
+	/** Releases an item that was produced but will never be used */
+	dispose(value: T): void;
+}
+
+interface PrefetchEntry<T> {
+	controller: AbortController;
+	promise: Promise<T>;
+	started: boolean;
+	settled: boolean;
+	discarded: boolean;
+	/** Set once produced, until the item is handed over or disposed */
+	value?: T;
+	start(): void;
+}
+
+/**
+ * Produces items ahead of the one being consumed so the next one is ready
+ * by the time it is needed. Used to synthesize upcoming paragraphs while
+ * the current one plays.
+ */
+export class PrefetchQueue<T> {
+	private entries = new Map<number, PrefetchEntry<T>>();
+	private running = 0;
+
+	constructor(private options: PrefetchOptions<T>) {}
+
+	/** True when item `index` has been produced (or failed) already */
+	isReady(index: number): boolean {
+		return !!this.entries.get(index)?.settled;
+	}
+
+	/**
+	 * Hands item `index` over to the caller, who then owns it. Starts it
+	 * right away if needed, queues the following `lookAhead` items and
+	 * cancels anything outside that window.
+	 */
+	get(index: number): Promise<T> {
+		const last = Math.min(
+			index + this.options.lookAhead,
+			this.options.count - 1
+		);
+
+		this.entries.forEach((entry, i) => {
+			if (i < index || i > last) this.discard(i, entry);
+		});
+		for (let i = index; i <= last; i++) {
+			if (!this.entries.has(i)) this.entries.set(i, this.createEntry(i));
+		}
+
+		const entry = this.entries.get(index);
+		if (!entry) {
+			return Promise.reject(new Error(`No item at index ${index}`));
+		}
+		this.entries.delete(index);
+		entry.value = undefined;
+
+		// The requested item never waits for a free slot
+		if (!entry.started) entry.start();
+		this.pump();
+		return entry.promise;
+	}
+
+	/** Aborts everything in flight and drops everything produced. */
+	cancel() {
+		this.entries.forEach((entry, i) => this.discard(i, entry));
+	}
+
+	private createEntry(index: number): PrefetchEntry<T> {
+		const controller = new AbortController();
+		let start = () => {};
+		const promise = new Promise<T>((resolve, reject) => {
+			start = () => {
+				entry.started = true;
+				this.running++;
+
+				const done = () => {
+					entry.settled = true;
+					this.running--;
+					this.pump();
+				};
+				this.options.produce(index, controller.signal).then(
+					(value) => {
+						resolve(value);
+						done();
+					},
+					(error) => {
+						reject(error);
+						done();
+					}
+				);
+			};
+		});
+
+		const entry: PrefetchEntry<T> = {
+			controller,
+			promise,
+			started: false,
+			settled: false,
+			discarded: false,
+			start: () => start(),
+		};
+
+		promise.then(
+			(value) => {
+				if (entry.discarded) {
+					this.options.dispose(value);
+				} else {
+					entry.value = value;
+				}
+			},
+			// Failures only matter to whoever asks for the item
+			() => undefined
+		);
+		return entry;
+	}
+
+	private discard(index: number, entry: PrefetchEntry<T>) {
+		entry.discarded = true;
+		entry.controller.abort();
+		if (entry.value !== undefined) {
+			this.options.dispose(entry.value);
+			entry.value = undefined;
+		}
+		this.entries.delete(index);
+	}
+
+	/** Starts queued items in order while there are free slots. */
+	private pump() {
+		const pending = Array.from(this.entries.keys()).sort((a, b) => a - b);
+		for (const index of pending) {
+			if (this.running >= this.options.concurrency) return;
+			const entry = this.entries.get(index);
+			if (entry && !entry.started) entry.start();
+		}
+	}
+}
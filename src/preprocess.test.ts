@@ -0,0 +1,174 @@
+import {
+	prepareSpeech,
+	sectionAt,
+	selectSourceRange,
+	skipSections,
+	SpeechChunk,
+	SpeechRules,
+	toSourceRange,
+} from "./preprocess";
+
+const RULES: SpeechRules = {
+	codeBlockMode: "skip",
+	readLinkUrls: false,
+	readImageAltText: false,
+	readTags: false,
+	listItemPauses: true,
+};
+
+function speak(source: string, rules: Partial<SpeechRules> = {}): string[] {
+	return prepareSpeech(source, { ...RULES, ...rules }).map(
+		(chunk) => chunk.text
+	);
+}
+
+/** The source text a spoken range of `chunk` came from */
+function sourceOf(
+	source: string,
+	chunk: SpeechChunk,
+	start: number,
+	length: number
+): string {
+	const { from, to } = toSourceRange(chunk, start, length);
+	return source.slice(from, to);
+}
+
+describe("prepareSpeech", () => {
+	test("splits a note into chunks by block", () => {
+		const chunks = prepareSpeech(
+			"# Title\n\nFirst line\nsecond line.\n\n- one\n- two\n\n> quoted",
+			RULES
+		);
+
+		expect(
+			chunks.map(({ kind, level, text }) => ({ kind, level, text }))
+		).toEqual([
+			{ kind: "heading", level: 1, text: "Title" },
+			{ kind: "paragraph", level: 0, text: "First line second line." },
+			{ kind: "list", level: 0, text: "one. two" },
+			{ kind: "quote", level: 0, text: "quoted" },
+		]);
+	});
+
+	test("strips inline markup", () => {
+		expect(
+			speak(
+				"Some **bold**, _italic_, `code` and ==marked== text with a [link](https://example.com)."
+			)
+		).toEqual(["Some bold, italic, code and marked text with a link."]);
+	});
+
+	test("reads wikilinks by alias, or by note and heading", () => {
+		expect(
+			speak(
+				"See [[Folder/Note#Part]], [[Other|the other]] and [[A#^block]]."
+			)
+		).toEqual(["See Note Part, the other and A."]);
+	});
+
+	test("leaves out frontmatter, comments, embeds and footnotes", () => {
+		expect(
+			speak(
+				"---\ntags: a\n---\nText %%hidden%% here ![[image.png]][^1].\n\n[^1]: Note"
+			)
+		).toEqual(["Text here."]);
+	});
+
+	test("reads URLs, alt text and tags only when asked", () => {
+		const source = "A [site](https://a.b) ![a cat](cat.png) #to-do";
+		expect(speak(source)).toEqual(["A site"]);
+		expect(
+			speak(source, {
+				readLinkUrls: true,
+				readImageAltText: true,
+				readTags: true,
+			})
+		).toEqual(["A site https://a.b a cat to do"]);
+	});
+
+	test("skips, announces or reads code blocks", () => {
+		const source = "```js\nlet a = 1;\n```";
+		expect(speak(source)).toEqual([]);
+		expect(speak(source, { codeBlockMode: "announce" })).toEqual([
+			"js code block.",
+		]);
+		expect(speak(source, { codeBlockMode: "read" })).toEqual([
+			"let a = 1;",
+		]);
+	});
+
+	test("separates table cells and rows", () => {
+		expect(speak("| A | B |\n| - | - |\n| 1 | 2 |")).toEqual([
+			"A, B. 1, 2",
+		]);
+	});
+
+	test("maps spoken words back to their source", () => {
+		const source = "Some **bold** and [[Folder/Note|alias]] text";
+		const [chunk] = prepareSpeech(source, RULES);
+
+		expect(chunk.text).toBe("Some bold and alias text");
+		expect(sourceOf(source, chunk, 5, 4)).toBe("bold");
+		expect(sourceOf(source, chunk, 14, 5)).toBe("alias");
+		expect(sourceOf(source, chunk, 20, 4)).toBe("text");
+		expect(chunk.from).toBe(0);
+		expect(chunk.to).toBe(source.length);
+	});
+});
+
+describe("selectSourceRange", () => {
+	const source = "First paragraph here.\n\nSecond paragraph here.";
+	const chunks = prepareSpeech(source, RULES);
+
+	test("keeps whole chunks inside the range", () => {
+		expect(selectSourceRange(chunks, 0, source.length)).toEqual(chunks);
+	});
+
+	test("widens a partial selection to whole words", () => {
+		const from = source.indexOf("aragraph");
+		const selected = selectSourceRange(chunks, from, from + 3);
+
+		expect(selected.map((chunk) => chunk.text)).toEqual(["paragraph"]);
+		expect(source.slice(selected[0].from, selected[0].to)).toBe(
+			"paragraph"
+		);
+	});
+});
+
+describe("sections", () => {
+	const chunks = prepareSpeech(
+		"Intro\n\n# One\n\nA\n\n## Sub\n\nB\n\n# Two\n\nC",
+		RULES
+	);
+	const texts = (selected: SpeechChunk[]) =>
+		selected.map((chunk) => chunk.text);
+
+	test("sectionAt returns a heading and its subsections", () => {
+		const offset = chunks[2].from;
+		expect(texts(sectionAt(chunks, offset))).toEqual([
+			"One",
+			"A",
+			"Sub",
+			"B",
+		]);
+	});
+
+	test("sectionAt treats text before the first heading as a section", () => {
+		expect(texts(sectionAt(chunks, 0))).toEqual(["Intro"]);
+	});
+
+	test("skipSections leaves out matching headings and their content", () => {
+		expect(texts(skipSections(chunks, ["one"]))).toEqual([
+			"Intro",
+			"Two",
+			"C",
+		]);
+		expect(texts(skipSections(chunks, ["SUB"]))).toEqual([
+			"Intro",
+			"One",
+			"A",
+			"Two",
+			"C",
+		]);
+	});
+});
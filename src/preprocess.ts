@@ -0,0 +1,565 @@
+/**
+ * Markdown-to-speech preprocessing.
+ *
+ * Turns the source of a note into speakable chunks (one per paragraph,
+ * heading, list, table or code block) and records, for every spoken
+ * character, the offset of the source character it came from. Highlighting
+ * uses that map to land on the right words no matter how much markup was
+ * stripped in between.
+ */
+
+export interface SpeechRules {
+	codeBlockMode: "skip" | "announce" | "read";
+	readLinkUrls: boolean;
+	readImageAltText: boolean;
+	readTags: boolean;
+	listItemPauses: boolean;
+}
+
+export type SpeechChunkKind =
+	| "paragraph"
+	| "heading"
+	| "list"
+	| "quote"
+	| "table"
+	| "code";
+
+export interface SpeechChunk {
+	kind: SpeechChunkKind;
+	/** Heading level (1-6), 0 for anything that is not a heading */
+	level: number;
+	/** Text handed to the voice service */
+	text: string;
+	/** Source offset of each character in `text` */
+	offsets: number[];
+	/** Source range the chunk was built from */
+	from: number;
+	to: number;
+}
+
+interface SourceLine {
+	text: string;
+	start: number;
+}
+
+/**
+ * Accumulates spoken text together with the source offset of each character.
+ * Runs of whitespace collapse to a single space.
+ */
+class SpokenTextBuilder {
+	text = "";
+	offsets: number[] = [];
+
+	/** Appends source text; character i maps to `sourceOffset + i`. */
+	append(value: string, sourceOffset: number) {
+		for (let i = 0; i < value.length; i++) {
+			this.push(value[i], sourceOffset + i);
+		}
+	}
+
+	/** Inserts synthetic text; every character maps to `sourceOffset`. */
+	insert(value: string, sourceOffset: number) {
+		for (let i = 0; i < value.length; i++) {
+			this.push(value[i], sourceOffset);
+		}
+	}
+
+	/** Adds a full stop unless the text already ends with punctuation. */
+	pause() {
+		this.trimEnd();
+		if (this.text && !/[.!?:;,]$/.test(this.text)) {
+			this.insert(".", this.offsets[this.offsets.length - 1]);
+		}
+	}
+
+	trimEnd() {
+		while (this.text.length && /\s$/.test(this.text)) {
+			this.text = this.text.slice(0, -1);
+			this.offsets.pop();
+		}
+	}
+
+	private push(char: string, sourceOffset: number) {
+		if (/\s/.test(char)) {
+			if (!this.text || /\s$/.test(this.text)) return;
+			char = " ";
+		} else if (/[.,;:!?]/.test(char) && /\s$/.test(this.text)) {
+			// Drop the gap left behind by removed markup before punctuation
+			this.text = this.text.slice(0, -1);
+			this.offsets.pop();
+		}
+		this.text += char;
+		this.offsets.push(sourceOffset);
+	}
+}
+
+const FRONTMATTER = /^---[ \t]*\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+const COMMENTS = /%%[\s\S]*?(?:%%|$)|<!--[\s\S]*?(?:-->|$)/g;
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^(#{1,6})[ \t]+/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const PROPERTY = /^[a-zA-Z0-9-_]+::.*$/;
+const FOOTNOTE_DEFINITION = /^\[\^[^\]]+\]:/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])[ \t]+(?:\[.\][ \t]+)?/;
+const QUOTE = /^\s*(?:>[ \t]?)+(?:\[![\w-]+\][+-]?[ \t]*)?/;
+
+const ESCAPE = /\\([!-/:-@[-`{-~])/y;
+const INLINE_CODE = /(`+)([\s\S]*?[^`])\1(?!`)/y;
+const EMBED = /!\[\[[^\]]*\]\]/y;
+const IMAGE = /!\[([^\]]*)\]\([^)]*\)/y;
+const WIKILINK = /\[\[([^\]|]*)(?:\|([^\]]*))?\]\]/y;
+const FOOTNOTE_REF = /\[\^[^\]]+\]|\^\[[^\]]*\]/y;
+const LINK = /\[([^\]]+)\]\(([^)\s]*)(?:\s+"[^"]*")?\)/y;
+const AUTOLINK = /<((?:https?|mailto):[^>\s]+)>/y;
+const HTML_TAG = /<\/?[a-zA-Z][\w-]*(?:\s[^<>]*)?\/?>/y;
+const URL = /(?:https?|obsidian):\/\/[^\s<>)\]]+/y;
+const TAG = /#[\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*/uy;
+const BLOCK_ID = /\s+\^[\w-]+\s*$/y;
+const EMPHASIS = /(\*\*\*|___|\*\*|__|\*|_|~~|==)(?=\S)([\s\S]*?\S)\1/y;
+
+function matchAt(pattern: RegExp, text: string, index: number) {
+	pattern.lastIndex = index;
+	return pattern.exec(text);
+}
+
+function isWordChar(char: string | undefined) {
+	return !!char && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Appends the speakable form of a single line of inline Markdown.
+ * `base` is the source offset of `text[0]`.
+ */
+function appendInline(
+	out: SpokenTextBuilder,
+	text: string,
+	base: number,
+	rules: SpeechRules
+) {
+	let i = 0;
+	while (i < text.length) {
+		const char = text[i];
+		const at = base + i;
+		let match: RegExpExecArray | null;
+
+		if ((match = matchAt(ESCAPE, text, i))) {
+			out.append(match[1], at + 1);
+		} else if ((match = matchAt(INLINE_CODE, text, i))) {
+			out.append(match[2], at + match[1].length);
+		} else if ((match = matchAt(EMBED, text, i))) {
+			// Embedded notes and attachments are not read
+		} else if ((match = matchAt(IMAGE, text, i))) {
+			if (rules.readImageAltText && match[1].trim()) {
+				appendInline(out, match[1], at + 2, rules);
+			}
+		} else if ((match = matchAt(WIKILINK, text, i))) {
+			if (match[2] !== undefined) {
+				const aliasStart = match[0].length - 2 - match[2].length;
+				appendInline(out, match[2], at + aliasStart, rules);
+			} else {
+				appendWikilinkTarget(out, match[1], at + 2);
+			}
+		} else if ((match = matchAt(FOOTNOTE_REF, text, i))) {
+			// Footnote markers are not read
+		} else if ((match = matchAt(LINK, text, i))) {
+			appendInline(out, match[1], at + 1, rules);
+			if (rules.readLinkUrls && match[2]) {
+				out.insert(" ", at + match[1].length + 2);
+				out.append(match[2], at + match[1].length + 3);
+			}
+		} else if ((match = matchAt(AUTOLINK, text, i))) {
+			if (rules.readLinkUrls) out.append(match[1], at + 1);
+		} else if ((match = matchAt(HTML_TAG, text, i))) {
+			// Inline HTML tags are dropped, their contents are kept
+		} else if (
+			!isWordChar(text[i - 1]) &&
+			(match = matchAt(URL, text, i))
+		) {
+			if (rules.readLinkUrls) out.append(match[0], at);
+		} else if (
+			(i === 0 || /\s/.test(text[i - 1])) &&
+			(match = matchAt(TAG, text, i))
+		) {
+			if (rules.readTags) {
+				const tag = match[0].slice(1).replace(/[/_-]/g, " ");
+				out.append(tag, at + 1);
+			}
+		} else if ((match = matchAt(BLOCK_ID, text, i))) {
+			// Block identifiers like ^abc123 are not read
+		} else if (
+			(match = matchAt(EMPHASIS, text, i)) &&
+			(!match[1].startsWith("_") ||
+				(!isWordChar(text[i - 1]) &&
+					!isWordChar(text[i + match[0].length])))
+		) {
+			appendInline(out, match[2], at + match[1].length, rules);
+		} else {
+			match = null;
+			// Stray emphasis markers would otherwise be read as "asterisk"
+			if (char !== "*") out.append(char, at);
+			i++;
+		}
+
+		if (match) i += match[0].length;
+	}
+}
+
+/** Speaks `Folder/Note#Heading` as "Note Heading", dropping block refs. */
+function appendWikilinkTarget(
+	out: SpokenTextBuilder,
+	target: string,
+	base: number
+) {
+	const hash = target.indexOf("#");
+	const path = hash === -1 ? target : target.slice(0, hash);
+	const subpath = hash === -1 ? "" : target.slice(hash + 1);
+
+	const nameStart = path.lastIndexOf("/") + 1;
+	const name = path.slice(nameStart).replace(/\.md$/, "");
+	out.append(name, base + nameStart);
+
+	if (subpath && !subpath.startsWith("^")) {
+		out.insert(" ", base + hash);
+		out.append(subpath.replace(/#/g, " "), base + hash + 1);
+	}
+}
+
+/** Appends a table row cell by cell, separating cells with commas. */
+function appendTableRow(
+	out: SpokenTextBuilder,
+	line: SourceLine,
+	rules: SpeechRules
+) {
+	const cellPattern = /(?:\\\||[^|])+/g;
+	let match: RegExpExecArray | null;
+	let first = true;
+	while ((match = cellPattern.exec(line.text))) {
+		if (!match[0].trim()) continue;
+		if (!first) {
+			out.trimEnd();
+			out.insert(", ", line.start + match.index - 1);
+		}
+		appendInline(out, match[0], line.start + match.index, rules);
+		first = false;
+	}
+}
+
+function splitLines(source: string, from: number): SourceLine[] {
+	const lines: SourceLine[] = [];
+	let start = from;
+	while (start <= source.length) {
+		const end = source.indexOf("\n", start);
+		const stop = end === -1 ? source.length : end;
+		lines.push({ text: source.slice(start, stop), start });
+		if (end === -1) break;
+		start = end + 1;
+	}
+	return lines;
+}
+
+/** Replaces comments with spaces so they vanish without moving offsets. */
+function maskComments(source: string) {
+	return source.replace(COMMENTS, (comment) =>
+		comment.replace(/[^\n]/g, " ")
+	);
+}
+
+/**
+ * Converts Markdown source into speakable chunks. Chunks that would be
+ * silent (images only, skipped code, comments) are left out.
+ */
+export function prepareSpeech(
+	source: string,
+	rules: SpeechRules
+): SpeechChunk[] {
+	const frontmatter = FRONTMATTER.exec(source);
+	const masked = maskComments(source);
+	const lines = splitLines(masked, frontmatter ? frontmatter[0].length : 0);
+	const chunks: SpeechChunk[] = [];
+
+	let out = new SpokenTextBuilder();
+	let kind = "paragraph" as SpeechChunkKind;
+	let level = 0;
+	let from = -1;
+	let to = -1;
+
+	const flush = () => {
+		out.trimEnd();
+		if (out.text) {
+			chunks.push({
+				kind,
+				level,
+				text: out.text,
+				offsets: out.offsets,
+				from,
+				to,
+			});
+		}
+		out = new SpokenTextBuilder();
+		kind = "paragraph";
+		level = 0;
+		from = -1;
+	};
+
+	const startLine = (
+		line: SourceLine,
+		lineKind: SpeechChunkKind,
+		lineLevel = 0
+	) => {
+		if (from === -1) {
+			from = line.start;
+			kind = lineKind;
+			level = lineLevel;
+		} else {
+			// A soft line break inside a block
+			if ((kind === "list" && rules.listItemPauses) || kind === "table") {
+				out.pause();
+			}
+			out.insert(" ", line.start - 1);
+		}
+		to = line.start + line.text.length;
+	};
+
+	for (let index = 0; index < lines.length; index++) {
+		const line = lines[index];
+		const trimmed = line.text.trim();
+
+		if (!trimmed) {
+			flush();
+			continue;
+		}
+
+		const fence = FENCE.exec(line.text);
+		if (fence) {
+			flush();
+			const marker = fence[1];
+			let end = index + 1;
+			while (
+				end < lines.length &&
+				!lines[end].text.trim().startsWith(marker)
+			) {
+				end++;
+			}
+			const last = lines[Math.min(end, lines.length - 1)];
+
+			if (rules.codeBlockMode !== "skip") {
+				startLine(line, "code");
+				to = last.start + last.text.length;
+				if (rules.codeBlockMode === "announce") {
+					const language = fence[2] ? `${fence[2]} ` : "";
+					out.insert(`${language}code block.`, line.start);
+				} else {
+					for (let j = index + 1; j < end; j++) {
+						out.append(lines[j].text, lines[j].start);
+						out.insert(" ", lines[j].start + lines[j].text.length);
+					}
+				}
+				flush();
+			}
+			index = end;
+			continue;
+		}
+
+		if (trimmed.startsWith("$$")) {
+			// Display math is skipped as a whole
+			flush();
+			let end = index;
+			if (!(trimmed.length > 2 && trimmed.endsWith("$$"))) {
+				end++;
+				while (end < lines.length && !lines[end].text.includes("$$")) {
+					end++;
+				}
+			}
+			index = end;
+			continue;
+		}
+
+		const heading = HEADING.exec(line.text);
+		if (heading) {
+			flush();
+			startLine(line, "heading", heading[1].length);
+			const content = line.text
+				.slice(heading[0].length)
+				.replace(/[ \t]+#+[ \t]*$/, "");
+			appendInline(out, content, line.start + heading[0].length, rules);
+			flush();
+			continue;
+		}
+
+		if (
+			RULE.test(line.text) ||
+			PROPERTY.test(line.text) ||
+			FOOTNOTE_DEFINITION.test(trimmed)
+		) {
+			flush();
+			continue;
+		}
+
+		if (TABLE_SEPARATOR.test(line.text) && line.text.includes("-")) {
+			continue;
+		}
+
+		if (trimmed.startsWith("|")) {
+			if (from !== -1 && kind !== "table") flush();
+			startLine(line, "table");
+			appendTableRow(out, line, rules);
+			continue;
+		}
+
+		const item = LIST_ITEM.exec(line.text);
+		if (item) {
+			if (from !== -1 && kind !== "list") flush();
+			startLine(line, "list");
+			appendInline(
+				out,
+				line.text.slice(item[0].length),
+				line.start + item[0].length,
+				rules
+			);
+			continue;
+		}
+
+		const quote = QUOTE.exec(line.text);
+		if (quote) {
+			startLine(line, "quote");
+			appendInline(
+				out,
+				line.text.slice(quote[0].length),
+				line.start + quote[0].length,
+				rules
+			);
+			continue;
+		}
+
+		startLine(line, "paragraph");
+		appendInline(out, line.text, line.start, rules);
+	}
+	flush();
+
+	return chunks;
+}
+
+/**
+ * Maps a range of spoken text in a chunk back to the note source.
+ */
+export function toSourceRange(
+	chunk: SpeechChunk,
+	start: number,
+	length: number
+): { from: number; to: number } {
+	const count = chunk.offsets.length;
+	if (!count) return { from: chunk.from, to: chunk.from };
+
+	const first = Math.min(Math.max(start, 0), count - 1);
+	const last = Math.min(Math.max(start + length - 1, first), count - 1);
+	return { from: chunk.offsets[first], to: chunk.offsets[last] + 1 };
+}
+
+/**
+ * Cuts `chunk` down to the text that comes from the source range
+ * `from`-`to`, widened to whole words. Returns null when nothing is left.
+ */
+function sliceChunk(
+	chunk: SpeechChunk,
+	from: number,
+	to: number
+): SpeechChunk | null {
+	const { text, offsets } = chunk;
+	let start = 0;
+	while (start < offsets.length && offsets[start] < from) start++;
+	let end = offsets.length;
+	while (end > start && offsets[end - 1] >= to) end--;
+
+	// Never start or stop in the middle of a word
+	while (start > 0 && /\S/.test(text[start - 1])) start--;
+	while (end < text.length && /\S/.test(text[end])) end++;
+	while (start < end && /\s/.test(text[start])) start++;
+	while (end > start && /\s/.test(text[end - 1])) end--;
+	if (start >= end) return null;
+
+	return {
+		...chunk,
+		text: text.slice(start, end),
+		offsets: offsets.slice(start, end),
+		from: offsets[start],
+		to: offsets[end - 1] + 1,
+	};
+}
+
+/**
+ * Returns the chunks, or parts of chunks, read from the source range
+ * `from`-`to`, e.g. a selection.
+ */
+export function selectSourceRange(
+	chunks: SpeechChunk[],
+	from: number,
+	to: number
+): SpeechChunk[] {
+	const selected: SpeechChunk[] = [];
+	for (const chunk of chunks) {
+		if (chunk.to <= from || chunk.from >= to) continue;
+		if (chunk.from >= from && chunk.to <= to) {
+			selected.push(chunk);
+			continue;
+		}
+		const part = sliceChunk(chunk, from, to);
+		if (part) selected.push(part);
+	}
+	return selected;
+}
+
+/**
+ * Returns the section holding source offset `offset`: its heading and
+ * everything up to the next heading of the same or a higher level. Text
+ * before the first heading forms a section of its own.
+ */
+export function sectionAt(
+	chunks: SpeechChunk[],
+	offset: number
+): SpeechChunk[] {
+	let start = -1;
+	chunks.forEach((chunk, i) => {
+		if (chunk.kind === "heading" && chunk.from <= offset) start = i;
+	});
+	const level = start === -1 ? 0 : chunks[start].level;
+
+	let end = start + 1;
+	while (
+		end < chunks.length &&
+		!(
+			chunks[end].kind === "heading" &&
+			(level === 0 || chunks[end].level <= level)
+		)
+	) {
+		end++;
+	}
+	return chunks.slice(Math.max(start, 0), end);
+}
+
+/**
+ * Leaves out the sections whose heading matches one of `headings`,
+ * compared case-insensitively: the heading and everything up to the next
+ * heading of the same or a higher level.
+ */
+export function skipSections(
+	chunks: SpeechChunk[],
+	headings: string[]
+): SpeechChunk[] {
+	const skipped = new Set(headings.map((heading) => heading.toLowerCase()));
+	if (skipped.size === 0) return chunks;
+
+	const kept: SpeechChunk[] = [];
+	let skipLevel = 0;
+	for (const chunk of chunks) {
+		if (chunk.kind === "heading") {
+			if (skipLevel && chunk.level > skipLevel) continue;
+			skipLevel = skipped.has(chunk.text.trim().toLowerCase())
+				? chunk.level
+				: 0;
+		}
+		if (!skipLevel) kept.push(chunk);
+	}
+	return kept;
+}
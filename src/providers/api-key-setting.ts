@@ -0,0 +1,91 @@
+import { Notice, Setting } from "obsidian";
+import { ENVIRONMENT_VARIABLES, readEnvironment, SecretName } from "../secrets";
+import { describeError } from "./errors";
+import { ProviderHost } from "./types";
+
+/**
+ * Adds the API key field to a provider's settings. The key is masked,
+ * saved in the secret store, and can be checked with `test`, a request
+ * that produces no audio and costs nothing. The description says where
+ * the key is kept, and warns when that is data.json.
+ */
+export function displayApiKeySetting(
+	containerEl: HTMLElement,
+	host: ProviderHost,
+	options: {
+		secret: SecretName;
+		/** Service name, for notices */
+		service: string;
+		name: string;
+		desc: string;
+		test: () => Promise<unknown>;
+		onChange?: () => void;
+	}
+) {
+	const { secrets } = host;
+	const variable = ENVIRONMENT_VARIABLES[options.secret];
+	const describe = () => {
+		switch (secrets.source(options.secret)) {
+			case "keychain":
+				return `${options.desc} Stored on this device, encrypted with your system keychain.`;
+			case "settings":
+				return `${options.desc} This device has no keychain to encrypt it with, so it is saved in plain text in data.json and syncs with your vault.`;
+			case "environment":
+				return `${options.desc} Read from the ${variable} environment variable.`;
+			default:
+				return `${options.desc} You can also set the ${variable} environment variable.`;
+		}
+	};
+
+	const setting = new Setting(containerEl)
+		.setName(options.name)
+		.setDesc(describe())
+		.addText((text) => {
+			text.inputEl.type = "password";
+			text.setPlaceholder(
+				readEnvironment(options.secret)
+					? `From ${variable}`
+					: "Enter API key"
+			);
+			text.setValue(secrets.getStored(options.secret)).onChange(
+				async (value) => {
+					try {
+						secrets.set(options.secret, value.trim());
+					} catch (error) {
+						console.error(
+							`Error saving the ${options.service} API key:`,
+							error
+						);
+						new Notice(
+							`Could not save the ${options.service} API key in the system keychain`
+						);
+						return;
+					}
+					await host.saveSettings();
+					setting.setDesc(describe());
+					options.onChange?.();
+				}
+			);
+		})
+		.addButton((button) =>
+			button.setButtonText("Test key").onClick(async () => {
+				if (!secrets.get(options.secret)) {
+					new Notice(`Enter your ${options.service} API key first`);
+					return;
+				}
+				button.setDisabled(true);
+				try {
+					await options.test();
+					new Notice(`${options.service} accepted the API key`);
+				} catch (error) {
+					console.error(
+						`Error testing the ${options.service} API key:`,
+						error
+					);
+					new Notice(describeError(error, options.service));
+				} finally {
+					button.setDisabled(false);
+				}
+			})
+		);
+}
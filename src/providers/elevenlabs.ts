@@ -0,0 +1,382 @@
+import { Setting } from "obsidian";
+import { CharacterAlignment, fromCharacterAlignment } from "../alignment";
+import { pcmToWav } from "../audio-join";
+import { displayApiKeySetting } from "./api-key-setting";
+import { fetchAudio, fetchJson, requestJson } from "./http";
+import {
+	AudioFormat,
+	AudioProvider,
+	ProviderCapabilities,
+	ProviderHost,
+	SynthesisRequest,
+	TimedAudio,
+	VoiceOption,
+} from "./types";
+
+/** Used when the account's voices cannot be fetched */
+const ELEVENLABS_VOICES: VoiceOption[] = [
+	{
+		id: "21m00Tcm4TlvDq8ikWAM",
+		name: "Rachel (Warm and Professional)",
+	},
+	{
+		id: "AZnzlk1XvdvUeBnXmlld",
+		name: "Domi (Strong and Energetic)",
+	},
+	{
+		id: "EXAVITQu4vr4xnSDxMaL",
+		name: "Bella (Soft and Gentle)",
+	},
+	{
+		id: "ErXwobaYiN019PkySvjV",
+		name: "Antoni (Well-Rounded)",
+	},
+	{
+		id: "MF3mGyEYCl7XYWbV9V6O",
+		name: "Elli (Approachable and Friendly)",
+	},
+	{
+		id: "TxGEqnHWrfWFTfGW9XjX",
+		name: "Josh (Deep and Clear)",
+	},
+	{
+		id: "VR6AewLTigWG4xSOukaG",
+		name: "Arnold (Confident and Rugged)",
+	},
+	{
+		id: "pNInz6obpgDQGcFmaJgB",
+		name: "Adam (Professional and Engaging)",
+	},
+	{
+		id: "yoZ06aMxZJJ28mfd3POQ",
+		name: "Sam (Serious and Grounded)",
+	},
+	{
+		id: "jsCqWAovK2LkecY7zXl4",
+		name: "Emily (Warm and Engaging)",
+	},
+];
+
+/** Used when the model list cannot be fetched */
+const ELEVENLABS_MODELS: VoiceOption[] = [
+	{ id: "eleven_multilingual_v2", name: "Eleven Multilingual v2" },
+	{ id: "eleven_turbo_v2_5", name: "Eleven Turbo v2.5" },
+	{ id: "eleven_flash_v2_5", name: "Eleven Flash v2.5" },
+	{ id: "eleven_monolingual_v1", name: "Eleven English v1" },
+];
+
+/**
+ * Characters per request, for models the model list gave no limit for.
+ * Other models, English v1 among them, take DEFAULT_INPUT_LENGTH.
+ */
+const MODEL_INPUT_LENGTHS: Array<[RegExp, number]> = [
+	[/^eleven_(flash|turbo)_v2_5$/, 40000],
+	[/^eleven_(flash|turbo)_v2$/, 30000],
+	[/^eleven_multilingual_v2$/, 10000],
+];
+const DEFAULT_INPUT_LENGTH = 5000;
+
+interface ElevenLabsModel extends VoiceOption {
+	/** Characters per request, when the model list says */
+	maxInputLength?: number;
+}
+
+/** Models that read SSML phoneme tags */
+const PHONEME_MODELS = [
+	"eleven_monolingual_v1",
+	"eleven_turbo_v2",
+	"eleven_flash_v2",
+];
+
+const API_URL = "https://api.elevenlabs.io/v1";
+
+/** Sample rate of WAV exports; 44.1 kHz needs a Pro plan */
+const PCM_SAMPLE_RATE = 24000;
+
+/**
+ * The `output_format` for each container. WAV comes as bare samples, see
+ * toBlob.
+ */
+const OUTPUT_FORMATS: Record<AudioFormat, string> = {
+	mp3: "mp3_44100_128",
+	wav: `pcm_${PCM_SAMPLE_RATE}`,
+	opus: "opus_48000_64",
+};
+
+export class ElevenLabsProvider implements AudioProvider {
+	readonly kind = "audio";
+	readonly id = "elevenlabs";
+	readonly name = "Eleven Labs";
+	readonly capabilities: ProviderCapabilities = {
+		wordTimings: true,
+		streaming: false,
+		pitch: false,
+		// Phoneme tags, read by the English models only
+		ssml: true,
+	};
+	readonly speedRange: [number, number] = [0.7, 1.2];
+
+	// Fetched on load, and again from the refresh button in settings or
+	// on the first request after the key changed; null until a fetch
+	// succeeds
+	private voices: VoiceOption[] | null = null;
+	private models: ElevenLabsModel[] | null = null;
+	private preparing: Promise<void> | null = null;
+
+	constructor(private host: ProviderHost) {}
+
+	private getHeaders(): Record<string, string> {
+		return { "xi-api-key": this.host.secrets.get("elevenlabs") };
+	}
+
+	checkConfiguration(): string | null {
+		if (!this.host.secrets.get("elevenlabs")) {
+			return "Please enter your Eleven Labs API key in settings";
+		}
+		return null;
+	}
+
+	getDefaultVoice(): string {
+		return "21m00Tcm4TlvDq8ikWAM"; // Rachel voice ID
+	}
+
+	async getVoices(): Promise<VoiceOption[]> {
+		if (!this.host.secrets.get("elevenlabs")) {
+			return [
+				{
+					id: "eleven-default",
+					name: "Eleven Labs API Key Required",
+				},
+			];
+		}
+		if (this.voices === null) this.voices = await this.fetchVoices();
+		return this.voices?.length ? this.voices : ELEVENLABS_VOICES;
+	}
+
+	/**
+	 * The account's voices: the premade ones and any cloned, designed or
+	 * added from the voice library. Null when they could not be fetched,
+	 * so the next call tries again.
+	 */
+	private async fetchVoices(): Promise<VoiceOption[] | null> {
+		try {
+			const json = (await requestJson(
+				`${API_URL}/voices`,
+				this.getHeaders()
+			)) as {
+				voices?: Array<{
+					voice_id: string;
+					name: string;
+					category?: string;
+				}>;
+			};
+			return (json.voices ?? []).map((voice) => ({
+				id: voice.voice_id,
+				name:
+					voice.category && voice.category !== "premade"
+						? `${voice.name} (${voice.category})`
+						: voice.name,
+			}));
+		} catch (error) {
+			console.error("Error fetching Eleven Labs voices:", error);
+			return null;
+		}
+	}
+
+	/** The models that can turn text into speech */
+	private async getModels(): Promise<VoiceOption[]> {
+		if (this.models === null && this.host.secrets.get("elevenlabs")) {
+			try {
+				const json = (await requestJson(
+					`${API_URL}/models`,
+					this.getHeaders()
+				)) as Array<{
+					model_id: string;
+					name: string;
+					can_do_text_to_speech?: boolean;
+					maximum_text_length_per_request?: number;
+				}>;
+				this.models = json
+					.filter((model) => model.can_do_text_to_speech !== false)
+					.map((model) => ({
+						id: model.model_id,
+						name: model.name,
+						maxInputLength: model.maximum_text_length_per_request,
+					}));
+			} catch (error) {
+				// Left unset, so the next call tries again
+				console.error("Error fetching Eleven Labs models:", error);
+			}
+		}
+		return this.models?.length ? this.models : ELEVENLABS_MODELS;
+	}
+
+	/** Loads the model list, for the limits in getMaxInputLength */
+	async prepare() {
+		// Requests sent side by side share one fetch
+		if (!this.preparing) {
+			this.preparing = this.getModels().then(() => {
+				this.preparing = null;
+			});
+		}
+		await this.preparing;
+	}
+
+	getModelId(language?: string): string {
+		const model = this.host.settings.elevenLabsModel;
+		if (model !== "auto") return model;
+		// The English model for English and unknown text, the
+		// multilingual one for everything else
+		return !language || /^en\b/i.test(language)
+			? "eleven_monolingual_v1"
+			: "eleven_multilingual_v2";
+	}
+
+	getMaxInputLength(language?: string): number {
+		const model = this.getModelId(language);
+		const listed = this.models?.find((entry) => entry.id === model);
+		if (listed?.maxInputLength) return listed.maxInputLength;
+		const known = MODEL_INPUT_LENGTHS.find(([pattern]) =>
+			pattern.test(model)
+		);
+		return known ? known[1] : DEFAULT_INPUT_LENGTH;
+	}
+
+	getCharacterPrice(language?: string): number {
+		// Credits bought beyond the plan cost about $0.30 per 1,000; the
+		// Flash and Turbo models take half a credit per character
+		const model = this.getModelId(language);
+		return /flash|turbo/.test(model) ? 150 : 300;
+	}
+
+	acceptsSsml(language?: string): boolean {
+		return PHONEME_MODELS.includes(this.getModelId(language));
+	}
+
+	private getRequestBody(request: SynthesisRequest) {
+		return {
+			// Only set for the phoneme models, see acceptsSsml
+			text: request.ssml ?? request.text,
+			model_id: this.getModelId(request.language),
+			voice_settings: {
+				stability: 0.5,
+				similarity_boost: 0.75,
+				speed: request.speed,
+			},
+		};
+	}
+
+	/**
+	 * Fetches the model list again if it failed on load, e.g. offline, or
+	 * the key changed, so notes read from now on are split by the model's
+	 * own limit
+	 */
+	private retryPrepare() {
+		if (this.models === null) this.prepare();
+	}
+
+	private getUrl(request: SynthesisRequest, endpoint = ""): string {
+		const format = OUTPUT_FORMATS[request.format ?? "mp3"];
+		return `${API_URL}/text-to-speech/${request.voice}${endpoint}?output_format=${format}`;
+	}
+
+	private toBlob(bytes: Uint8Array, format: AudioFormat = "mp3"): Blob {
+		if (format === "wav") {
+			return new Blob([pcmToWav(bytes, PCM_SAMPLE_RATE)], {
+				type: "audio/wav",
+			});
+		}
+		return new Blob([bytes], {
+			type: format === "opus" ? "audio/ogg" : "audio/mpeg",
+		});
+	}
+
+	async synthesize(request: SynthesisRequest): Promise<Blob> {
+		this.retryPrepare();
+		const audio = await fetchAudio(
+			this.getUrl(request),
+			this.getHeaders(),
+			this.getRequestBody(request),
+			request.signal
+		);
+		return this.toBlob(
+			new Uint8Array(await audio.arrayBuffer()),
+			request.format
+		);
+	}
+
+	async synthesizeWithTimings(
+		request: SynthesisRequest
+	): Promise<TimedAudio> {
+		this.retryPrepare();
+		const body = this.getRequestBody(request);
+		const response = (await fetchJson(
+			this.getUrl(request, "/with-timestamps"),
+			this.getHeaders(),
+			body,
+			request.signal
+		)) as {
+			audio_base64: string;
+			alignment?: CharacterAlignment | null;
+		};
+
+		const binary = atob(response.audio_base64);
+		const bytes = new Uint8Array(binary.length);
+		for (let i = 0; i < binary.length; i++) {
+			bytes[i] = binary.charCodeAt(i);
+		}
+
+		return {
+			audio: this.toBlob(bytes, request.format),
+			// Tags in the text would throw the alignment off; timings are
+			// estimated instead
+			timings:
+				response.alignment && body.text === request.text
+					? fromCharacterAlignment(request.text, response.alignment)
+					: undefined,
+		};
+	}
+
+	displaySettings(containerEl: HTMLElement, refresh: () => void) {
+		displayApiKeySetting(containerEl, this.host, {
+			secret: "elevenlabs",
+			service: this.name,
+			name: "Eleven Labs API Key",
+			desc: "Enter your Eleven Labs API key.",
+			// Listing voices is free
+			test: () => requestJson(`${API_URL}/voices`, this.getHeaders()),
+			onChange: () => {
+				this.voices = null;
+				this.models = null;
+			},
+		});
+
+		new Setting(containerEl)
+			.setName("Model")
+			.setDesc(
+				"'Automatic' reads English with the English model and other languages with the multilingual one. Turbo and Flash models are faster and cheaper."
+			)
+			.addDropdown(async (dropdown) => {
+				dropdown.addOption("auto", "Automatic");
+				for (const model of await this.getModels()) {
+					dropdown.addOption(model.id, model.name);
+				}
+				dropdown
+					.setValue(this.host.settings.elevenLabsModel)
+					.onChange(async (value) => {
+						this.host.settings.elevenLabsModel = value;
+						await this.host.saveSettings();
+					});
+			})
+			.addExtraButton((button) =>
+				button
+					.setIcon("refresh-cw")
+					.setTooltip("Refresh voices and models")
+					.onClick(() => {
+						this.voices = null;
+						this.models = null;
+						refresh();
+					})
+			);
+	}
+}
@@ -0,0 +1,152 @@
+import {
+	describeError,
+	errorFromResponse,
+	SynthesisError,
+	withRetries,
+} from "./errors";
+
+/** The pauses withRetries asked for, which are skipped instead of waited */
+let delays: number[];
+
+beforeEach(() => {
+	delays = [];
+	(global as unknown as { window: unknown }).window = {
+		setTimeout: (callback: () => void, ms: number) => {
+			delays.push(ms);
+			return setTimeout(callback, 0);
+		},
+		clearTimeout,
+	};
+	jest.spyOn(Math, "random").mockReturnValue(0);
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+	delete (global as unknown as { window?: unknown }).window;
+});
+
+/** A task failing with `errors` in turn, then answering "done" */
+function failing(...errors: Error[]) {
+	return jest.fn(async () => {
+		const error = errors.shift();
+		if (error) throw error;
+		return "done";
+	});
+}
+
+describe("errorFromResponse", () => {
+	test("reports a refused key as an authentication error", () => {
+		expect(errorFromResponse(401, "").kind).toBe("auth");
+		expect(errorFromResponse(403, "Forbidden").kind).toBe("auth");
+	});
+
+	test("reports payment and quota failures as quota errors", () => {
+		expect(errorFromResponse(402, "").kind).toBe("quota");
+		expect(
+			errorFromResponse(401, '{"detail":{"status":"quota_exceeded"}}')
+				.kind
+		).toBe("quota");
+		expect(
+			errorFromResponse(429, '{"error":{"code":"insufficient_quota"}}')
+				.kind
+		).toBe("quota");
+	});
+
+	test("reads Retry-After in seconds or as a date", () => {
+		const error = errorFromResponse(429, "", "2");
+		expect(error.kind).toBe("rate-limit");
+		expect(error.retryAfter).toBe(2000);
+
+		const later = new Date(Date.now() + 60000).toUTCString();
+		const retryAfter = errorFromResponse(503, "", later).retryAfter;
+		expect(retryAfter).toBeGreaterThan(55000);
+		expect(retryAfter).toBeLessThanOrEqual(60000);
+
+		expect(errorFromResponse(429, "", "soon").retryAfter).toBeUndefined();
+	});
+
+	test("tells server failures from refused requests", () => {
+		const server = errorFromResponse(502, "");
+		expect(server.kind).toBe("server");
+		expect(server.status).toBe(502);
+		expect(server.transient).toBe(true);
+
+		const request = errorFromResponse(400, "Unknown voice");
+		expect(request.kind).toBe("request");
+		expect(request.transient).toBe(false);
+	});
+});
+
+describe("withRetries", () => {
+	test("backs off exponentially on transient errors", async () => {
+		const task = failing(
+			errorFromResponse(500, ""),
+			errorFromResponse(503, ""),
+			new SynthesisError("network", "offline")
+		);
+
+		expect(await withRetries(task)).toBe("done");
+		expect(task).toHaveBeenCalledTimes(4);
+		expect(delays).toEqual([1000, 2000, 4000]);
+	});
+
+	test("waits as long as the service asks, up to a limit", async () => {
+		const task = failing(
+			errorFromResponse(429, "", "5"),
+			errorFromResponse(429, "", "3600")
+		);
+
+		expect(await withRetries(task)).toBe("done");
+		expect(delays).toEqual([5000, 30000]);
+	});
+
+	test("gives up after three retries", async () => {
+		const task = jest.fn(async () => {
+			throw errorFromResponse(500, "");
+		});
+
+		await expect(withRetries(task)).rejects.toMatchObject({
+			kind: "server",
+		});
+		expect(task).toHaveBeenCalledTimes(4);
+	});
+
+	test("does not retry errors that would fail again", async () => {
+		for (const error of [
+			errorFromResponse(401, ""),
+			errorFromResponse(402, ""),
+			errorFromResponse(400, ""),
+			new Error("not a service error"),
+		]) {
+			const task = failing(error);
+			await expect(withRetries(task)).rejects.toBe(error);
+			expect(task).toHaveBeenCalledTimes(1);
+		}
+		expect(delays).toEqual([]);
+	});
+
+	test("stops waiting when aborted", async () => {
+		const controller = new AbortController();
+		const task = jest.fn(async () => {
+			controller.abort();
+			throw errorFromResponse(500, "");
+		});
+
+		await expect(
+			withRetries(task, controller.signal)
+		).rejects.toMatchObject({ kind: "server" });
+		expect(task).toHaveBeenCalledTimes(1);
+		expect(delays).toEqual([]);
+	});
+});
+
+describe("describeError", () => {
+	test("names the service and what to do", () => {
+		expect(describeError(errorFromResponse(401, ""), "OpenAI")).toBe(
+			"OpenAI rejected the API key. Check it in settings."
+		);
+		expect(describeError(new Error("boom"), "Piper")).toBe(
+			"Error generating speech with Piper."
+		);
+	});
+});
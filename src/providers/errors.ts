@@ -0,0 +1,172 @@
+/** Why a voice service could not synthesize a clip */
+export type SynthesisErrorKind =
+	/** The API key is missing, wrong or revoked */
+	| "auth"
+	/** Out of credits or over the plan's quota */
+	| "quota"
+	/** Too many requests for now */
+	| "rate-limit"
+	/** The service failed on its side (HTTP 5xx) */
+	| "server"
+	/** The service could not be reached */
+	| "network"
+	/** The request itself was refused, e.g. an unknown voice */
+	| "request"
+	/** Not sent, as it would go over the monthly spending cap */
+	| "spending-cap";
+
+export class SynthesisError extends Error {
+	constructor(
+		readonly kind: SynthesisErrorKind,
+		message: string,
+		readonly status?: number,
+		/** Milliseconds the service asked to wait before trying again */
+		readonly retryAfter?: number
+	) {
+		super(message);
+		this.name = "SynthesisError";
+	}
+
+	/** Worth trying again after a pause */
+	get transient(): boolean {
+		return (
+			this.kind === "rate-limit" ||
+			this.kind === "server" ||
+			this.kind === "network"
+		);
+	}
+}
+
+/** Parses a Retry-After header, given in seconds or as a date */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+	if (!value) return undefined;
+	const seconds = Number(value);
+	if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(value);
+	return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classifies a failed response by its status, and by its body where
+ * services reuse a status: OpenAI reports an empty balance as 429 and
+ * Eleven Labs an exhausted quota as 401.
+ */
+export function errorFromResponse(
+	status: number,
+	body: string,
+	retryAfter?: string | null
+): SynthesisError {
+	const message = `HTTP error! status: ${status}`;
+	const refused = status === 401 || status === 403 || status === 429;
+	if (
+		status === 402 ||
+		(refused && /quota|insufficient|credits|billing/i.test(body))
+	) {
+		return new SynthesisError("quota", message, status);
+	}
+	if (status === 401 || status === 403) {
+		return new SynthesisError("auth", message, status);
+	}
+	if (status === 429) {
+		return new SynthesisError(
+			"rate-limit",
+			message,
+			status,
+			parseRetryAfter(retryAfter)
+		);
+	}
+	if (status >= 500) {
+		return new SynthesisError(
+			"server",
+			message,
+			status,
+			parseRetryAfter(retryAfter)
+		);
+	}
+	return new SynthesisError("request", message, status);
+}
+
+/** Wraps a failure to connect at all, e.g. while offline */
+export function networkError(error: unknown): SynthesisError {
+	return new SynthesisError(
+		"network",
+		error instanceof Error ? error.message : String(error)
+	);
+}
+
+export function isAbortError(error: unknown): boolean {
+	return error instanceof DOMException && error.name === "AbortError";
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new DOMException("Aborted", "AbortError"));
+			return;
+		}
+		const timer = window.setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		const onAbort = () => {
+			window.clearTimeout(timer);
+			reject(new DOMException("Aborted", "AbortError"));
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+const MAX_RETRIES = 3;
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * Runs `task`, trying again with exponential backoff when it fails with a
+ * transient error. Waits as long as the service asks to when it says.
+ */
+export async function withRetries<T>(
+	task: () => Promise<T>,
+	signal?: AbortSignal
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await task();
+		} catch (error) {
+			if (
+				!(error instanceof SynthesisError) ||
+				!error.transient ||
+				attempt >= MAX_RETRIES ||
+				signal?.aborted
+			) {
+				throw error;
+			}
+			const backoff = 1000 * 2 ** attempt * (1 + Math.random() / 2);
+			await sleep(
+				Math.min(error.retryAfter ?? backoff, MAX_RETRY_DELAY),
+				signal
+			);
+		}
+	}
+}
+
+/** A notice telling the user what went wrong and what to do about it */
+export function describeError(error: unknown, service: string): string {
+	if (!(error instanceof SynthesisError)) {
+		return `Error generating speech with ${service}.`;
+	}
+	switch (error.kind) {
+		case "auth":
+			return `${service} rejected the API key. Check it in settings.`;
+		case "quota":
+			return `Your ${service} quota or credit is used up.`;
+		case "rate-limit":
+			return `${service} is receiving too many requests. Try again in a moment.`;
+		case "server":
+			return `${service} is having problems (HTTP ${error.status}). Try again later.`;
+		case "network":
+			return `Could not reach ${service}. Check your connection.`;
+		case "request":
+			return `${service} refused the request (HTTP ${error.status}). Check the voice and model in settings.`;
+		case "spending-cap":
+			return `Reading on with ${service} would go over your monthly spending cap. Raise it in settings to continue.`;
+	}
+}
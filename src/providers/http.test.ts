@@ -0,0 +1,107 @@
+import { createServer, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { SynthesisError } from "./errors";
+import { fetchAudio, requestAudio } from "./http";
+
+/** Answers each request with the next of `responses` */
+type Respond = (response: ServerResponse) => void;
+
+let server: Server;
+let responses: Respond[];
+let requests: number;
+let url: string;
+let delays: number[];
+
+beforeAll(async () => {
+	server = createServer((request, response) => {
+		request.resume();
+		request.on("end", () => {
+			requests++;
+			const respond = responses.shift();
+			if (respond) {
+				respond(response);
+			} else {
+				response.statusCode = 404;
+				response.end();
+			}
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+	const { port } = server.address() as AddressInfo;
+	url = `http://127.0.0.1:${port}/speech`;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+beforeEach(() => {
+	responses = [];
+	requests = 0;
+	delays = [];
+	// Record the pauses between retries instead of waiting them out
+	(global as unknown as { window: unknown }).window = {
+		setTimeout: (callback: () => void, ms: number) => {
+			delays.push(ms);
+			return setTimeout(callback, 0);
+		},
+		clearTimeout,
+	};
+	jest.spyOn(Math, "random").mockReturnValue(0);
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+	delete (global as unknown as { window?: unknown }).window;
+});
+
+function fail(status: number, headers: Record<string, string> = {}): Respond {
+	return (response) => {
+		response.writeHead(status, headers);
+		response.end();
+	};
+}
+
+const audio: Respond = (response) => {
+	response.setHeader("Content-Type", "audio/mpeg");
+	response.end(Buffer.from([1, 2, 3]));
+};
+
+async function bytes(blob: Blob): Promise<number[]> {
+	return Array.from(new Uint8Array(await blob.arrayBuffer()));
+}
+
+describe.each([
+	["fetchAudio", () => fetchAudio(url, {}, { text: "Hi" })],
+	["requestAudio", () => requestAudio(url, {}, { text: "Hi" }, "audio/mpeg")],
+])("%s", (_, synthesize) => {
+	test("retries a server error and returns the audio", async () => {
+		responses = [fail(503), audio];
+
+		expect(await bytes(await synthesize())).toEqual([1, 2, 3]);
+		expect(requests).toBe(2);
+		expect(delays).toEqual([1000]);
+	});
+
+	test("waits as long as a rate limit's Retry-After says", async () => {
+		responses = [fail(429, { "Retry-After": "7" }), audio];
+
+		expect(await bytes(await synthesize())).toEqual([1, 2, 3]);
+		expect(delays).toEqual([7000]);
+	});
+
+	test("fails at once on a refused key", async () => {
+		responses = [fail(401), audio];
+
+		await expect(synthesize()).rejects.toMatchObject({ kind: "auth" });
+		expect(requests).toBe(1);
+	});
+});
+
+test("reports an unreachable service as a network error", async () => {
+	const closed = "http://127.0.0.1:1/speech";
+
+	const error = await fetchAudio(closed, {}, {}).catch((error) => error);
+
+	expect(error).toBeInstanceOf(SynthesisError);
+	expect(error.kind).toBe("network");
+	expect(delays).toEqual([1000, 2000, 4000]);
+});
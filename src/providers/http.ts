@@ -0,0 +1,130 @@
+import { requestUrl } from "obsidian";
+import {
+	errorFromResponse,
+	isAbortError,
+	networkError,
+	withRetries,
+} from "./errors";
+
+async function post(
+	url: string,
+	headers: Record<string, string>,
+	body: unknown,
+	signal?: AbortSignal
+): Promise<Response> {
+	return withRetries(async () => {
+		let response: Response;
+		try {
+			response = await fetch(url, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					...headers,
+				},
+				body: JSON.stringify(body),
+				signal,
+			});
+		} catch (error) {
+			if (isAbortError(error)) throw error;
+			throw networkError(error);
+		}
+
+		if (!response.ok) {
+			throw errorFromResponse(
+				response.status,
+				await response.text().catch(() => ""),
+				response.headers.get("Retry-After")
+			);
+		}
+
+		return response;
+	}, signal);
+}
+
+/**
+ * POSTs a JSON body to a speech endpoint and returns the audio it sends back.
+ * Transient failures are retried; others throw a SynthesisError.
+ */
+export async function fetchAudio(
+	url: string,
+	headers: Record<string, string>,
+	body: unknown,
+	signal?: AbortSignal
+): Promise<Blob> {
+	const response = await post(url, headers, body, signal);
+	return response.blob();
+}
+
+/**
+ * POSTs a JSON body and returns the JSON response, for endpoints that wrap
+ * the audio together with other data.
+ */
+export async function fetchJson(
+	url: string,
+	headers: Record<string, string>,
+	body: unknown,
+	signal?: AbortSignal
+): Promise<unknown> {
+	const response = await post(url, headers, body, signal);
+	return response.json();
+}
+
+/**
+ * Same as fetchAudio, but goes through Obsidian's requestUrl. Self-hosted
+ * servers rarely send CORS headers, which would make a plain fetch fail.
+ * requestUrl cannot be aborted, so a cancelled request runs to completion
+ * and its result is thrown away; `signal` only stops further retries.
+ */
+export async function requestAudio(
+	url: string,
+	headers: Record<string, string>,
+	body: unknown,
+	mimeType: string,
+	signal?: AbortSignal
+): Promise<Blob> {
+	return withRetries(async () => {
+		const response = await requestUrl({
+			url,
+			method: "POST",
+			contentType: "application/json",
+			headers,
+			body: JSON.stringify(body),
+			throw: false,
+		}).catch((error) => {
+			throw networkError(error);
+		});
+
+		if (response.status >= 400) {
+			throw errorFromResponse(
+				response.status,
+				response.text,
+				response.headers["retry-after"]
+			);
+		}
+
+		return new Blob([response.arrayBuffer], { type: mimeType });
+	}, signal);
+}
+
+/**
+ * GETs a JSON document through requestUrl, see requestAudio.
+ */
+export async function requestJson(
+	url: string,
+	headers: Record<string, string>
+): Promise<unknown> {
+	const response = await requestUrl({
+		url,
+		method: "GET",
+		headers,
+		throw: false,
+	}).catch((error) => {
+		throw networkError(error);
+	});
+
+	if (response.status >= 400) {
+		throw errorFromResponse(response.status, response.text);
+	}
+
+	return response.json;
+}
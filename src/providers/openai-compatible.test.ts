@@ -0,0 +1,197 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { SecretStore } from "../secrets";
+import { DEFAULT_SETTINGS, TextToSpeechSettings } from "../settings";
+import { SynthesisError } from "./errors";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+
+interface ReceivedRequest {
+	method?: string;
+	url?: string;
+	headers: IncomingMessage["headers"];
+	body: string;
+}
+
+type Handler = (request: ReceivedRequest, response: ServerResponse) => void;
+
+/** A TTS server on localhost, answering with whatever `handler` sends */
+let server: Server;
+let handler: Handler;
+let received: ReceivedRequest[];
+let baseUrl: string;
+
+beforeAll(async () => {
+	server = createServer((request, response) => {
+		let body = "";
+		request.on("data", (data) => (body += data));
+		request.on("end", () => {
+			const entry = {
+				method: request.method,
+				url: request.url,
+				headers: request.headers,
+				body,
+			};
+			received.push(entry);
+			handler(entry, response);
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+	const { port } = server.address() as AddressInfo;
+	baseUrl = `http://127.0.0.1:${port}/v1`;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+beforeEach(() => {
+	received = [];
+	handler = (_, response) => {
+		response.statusCode = 404;
+		response.end();
+	};
+});
+
+function sendJson(response: ServerResponse, json: unknown) {
+	response.setHeader("Content-Type", "application/json");
+	response.end(JSON.stringify(json));
+}
+
+function createProvider(
+	settings: Partial<TextToSpeechSettings> = {},
+	apiKey = ""
+) {
+	return new OpenAICompatibleProvider({
+		settings: {
+			...DEFAULT_SETTINGS,
+			customTtsBaseUrl: baseUrl + "/",
+			playbackVoice: "",
+			...settings,
+		},
+		secrets: { get: () => apiKey } as unknown as SecretStore,
+		saveSettings: async () => undefined,
+	});
+}
+
+describe("OpenAICompatibleProvider", () => {
+	test("needs a server URL", () => {
+		expect(createProvider().checkConfiguration()).toBeNull();
+		expect(
+			createProvider({ customTtsBaseUrl: " " }).checkConfiguration()
+		).not.toBeNull();
+	});
+
+	test("lists the voices the server serves at /audio/voices", async () => {
+		handler = (request, response) => {
+			if (request.url === "/v1/audio/voices") {
+				sendJson(response, { voices: ["af_bella", "am_adam"] });
+			}
+		};
+		const provider = createProvider();
+
+		expect(await provider.getVoices()).toEqual([
+			{ id: "af_bella", name: "af_bella" },
+			{ id: "am_adam", name: "am_adam" },
+		]);
+		expect(provider.getDefaultVoice()).toBe("af_bella");
+	});
+
+	test("tries /voices when /audio/voices is missing", async () => {
+		handler = (request, response) => {
+			if (request.url === "/v1/voices") {
+				sendJson(response, {
+					data: [{ voice_id: "v1", name: "First" }, { id: "v2" }],
+				});
+			} else {
+				response.statusCode = 404;
+				response.end();
+			}
+		};
+
+		expect(await createProvider().getVoices()).toEqual([
+			{ id: "v1", name: "First" },
+			{ id: "v2", name: "v2" },
+		]);
+		expect(received.map((request) => request.url)).toEqual([
+			"/v1/audio/voices",
+			"/v1/voices",
+		]);
+	});
+
+	test("offers OpenAI's voices and the typed one when none are listed", async () => {
+		const provider = createProvider({ playbackVoice: "my-voice" });
+		const voices = await provider.getVoices();
+
+		expect(voices[0]).toEqual({ id: "my-voice", name: "my-voice" });
+		expect(voices.map((voice) => voice.id)).toContain("alloy");
+		expect(provider.getDefaultVoice()).toBe("alloy");
+
+		// The failed lookup is remembered until the URL changes
+		await provider.getVoices();
+		expect(received).toHaveLength(2);
+	});
+
+	test("posts the request to /audio/speech and returns the audio", async () => {
+		handler = (_, response) => {
+			response.setHeader("Content-Type", "audio/wav");
+			response.end(Buffer.from([1, 2, 3, 4]));
+		};
+		const provider = createProvider(
+			{
+				customTtsModel: "kokoro",
+				customTtsResponseFormat: "wav",
+				customTtsHeaders: "X-Api-Version: 2\nnot a header",
+			},
+			"secret"
+		);
+
+		const audio = await provider.synthesize({
+			text: "Hello there.",
+			voice: "af_bella",
+			speed: 1.25,
+		});
+
+		expect(audio.type).toBe("audio/wav");
+		expect(Array.from(new Uint8Array(await audio.arrayBuffer()))).toEqual([
+			1, 2, 3, 4,
+		]);
+
+		const [request] = received;
+		expect(request.method).toBe("POST");
+		expect(request.url).toBe("/v1/audio/speech");
+		expect(request.headers.authorization).toBe("Bearer secret");
+		expect(request.headers["x-api-version"]).toBe("2");
+		expect(JSON.parse(request.body)).toEqual({
+			model: "kokoro",
+			voice: "af_bella",
+			input: "Hello there.",
+			speed: 1.25,
+			response_format: "wav",
+		});
+	});
+
+	test("asks for the format a request needs", async () => {
+		handler = (_, response) => response.end("audio");
+		await createProvider().synthesize({
+			text: "Hi",
+			voice: "alloy",
+			speed: 1,
+			format: "opus",
+		});
+
+		expect(JSON.parse(received[0].body).response_format).toBe("opus");
+	});
+
+	test("reports a refused key as an authentication error", async () => {
+		handler = (_, response) => {
+			response.statusCode = 401;
+			sendJson(response, { error: { message: "Invalid API key" } });
+		};
+
+		const error = await createProvider()
+			.synthesize({ text: "Hi", voice: "alloy", speed: 1 })
+			.catch((error) => error);
+
+		expect(error).toBeInstanceOf(SynthesisError);
+		expect(error.kind).toBe("auth");
+		expect(received).toHaveLength(1);
+	});
+});
@@ -0,0 +1,272 @@
+import { Setting } from "obsidian";
+import { displayApiKeySetting } from "./api-key-setting";
+import { requestAudio, requestJson } from "./http";
+import {
+	AudioProvider,
+	ProviderCapabilities,
+	ProviderHost,
+	SynthesisRequest,
+	VoiceOption,
+} from "./types";
+
+const RESPONSE_MIME_TYPES: Record<string, string> = {
+	mp3: "audio/mpeg",
+	wav: "audio/wav",
+	opus: "audio/ogg",
+	aac: "audio/aac",
+	flac: "audio/flac",
+};
+
+/** Used when the server cannot list its voices */
+const FALLBACK_VOICES = ["alloy", "echo", "fable", "onyx", "nova", "shimmer"];
+
+/** Parses `Name: value` lines, ignoring blanks and lines without a colon. */
+function parseHeaders(text: string): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const line of text.split("\n")) {
+		const colon = line.indexOf(":");
+		if (colon <= 0) continue;
+		const name = line.slice(0, colon).trim();
+		const value = line.slice(colon + 1).trim();
+		if (name) headers[name] = value;
+	}
+	return headers;
+}
+
+/**
+ * Accepts the shapes voice endpoints use in the wild: a bare array, or an
+ * object with a `voices` or `data` array, holding strings or objects with
+ * an `id`, `voice_id` or `name`.
+ */
+function parseVoiceList(json: unknown): VoiceOption[] {
+	let items: unknown = json;
+	if (items && typeof items === "object" && !Array.isArray(items)) {
+		const record = items as Record<string, unknown>;
+		items = record.voices ?? record.data;
+	}
+	if (!Array.isArray(items)) return [];
+
+	const voices: VoiceOption[] = [];
+	for (const item of items) {
+		if (typeof item === "string") {
+			voices.push({ id: item, name: item });
+		} else if (item && typeof item === "object") {
+			const record = item as Record<string, unknown>;
+			const id = record.id ?? record.voice_id ?? record.name;
+			if (typeof id !== "string") continue;
+			const name = typeof record.name === "string" ? record.name : id;
+			voices.push({ id, name });
+		}
+	}
+	return voices;
+}
+
+/**
+ * Any server that implements OpenAI's `/audio/speech` endpoint: Kokoro,
+ * Piper or Coqui behind an OpenAI-compatible shim, LocalAI and so on.
+ */
+export class OpenAICompatibleProvider implements AudioProvider {
+	readonly kind = "audio";
+	readonly id = "openai-compatible";
+	readonly name = "OpenAI-Compatible Server";
+	readonly capabilities: ProviderCapabilities = {
+		wordTimings: false,
+		streaming: false,
+		pitch: false,
+		ssml: false,
+	};
+
+	private discoveredVoices: VoiceOption[] | null = null;
+
+	constructor(private host: ProviderHost) {}
+
+	private get baseUrl(): string {
+		return this.host.settings.customTtsBaseUrl.trim().replace(/\/+$/, "");
+	}
+
+	private getHeaders(): Record<string, string> {
+		const headers = parseHeaders(this.host.settings.customTtsHeaders);
+		const apiKey = this.host.secrets.get("openai-compatible");
+		if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+		return headers;
+	}
+
+	checkConfiguration(): string | null {
+		if (!this.baseUrl) {
+			return "Please enter the base URL of your TTS server in settings";
+		}
+		return null;
+	}
+
+	getDefaultVoice(): string {
+		return this.discoveredVoices?.[0]?.id ?? FALLBACK_VOICES[0];
+	}
+
+	async getVoices(): Promise<VoiceOption[]> {
+		if (this.discoveredVoices === null && this.baseUrl) {
+			this.discoveredVoices = await this.discoverVoices();
+		}
+
+		const voices = this.discoveredVoices?.length
+			? [...this.discoveredVoices]
+			: FALLBACK_VOICES.map((id) => ({ id, name: id }));
+
+		// Keep a manually entered voice selectable
+		const current = this.host.settings.playbackVoice;
+		if (current && !voices.some((voice) => voice.id === current)) {
+			voices.unshift({ id: current, name: current });
+		}
+		return voices;
+	}
+
+	/**
+	 * Asks the server for its voices. Kokoro-FastAPI and most shims serve
+	 * them at `/audio/voices`, a few at `/voices`. Servers that list none
+	 * get the standard OpenAI voices.
+	 */
+	private async discoverVoices(): Promise<VoiceOption[]> {
+		for (const path of ["/audio/voices", "/voices"]) {
+			try {
+				const json = await requestJson(
+					this.baseUrl + path,
+					this.getHeaders()
+				);
+				const voices = parseVoiceList(json);
+				if (voices.length) return voices;
+			} catch (error) {
+				// Not served here, try the next path
+			}
+		}
+		return [];
+	}
+
+	getModelId(): string {
+		const settings = this.host.settings;
+		return [
+			this.baseUrl,
+			settings.customTtsModel,
+			settings.customTtsResponseFormat,
+		].join("|");
+	}
+
+	getMaxInputLength(): number {
+		// What OpenAI accepts; servers modelled on it rarely allow more
+		return 4096;
+	}
+
+	synthesize(request: SynthesisRequest): Promise<Blob> {
+		const format =
+			request.format ?? this.host.settings.customTtsResponseFormat;
+		return requestAudio(
+			`${this.baseUrl}/audio/speech`,
+			this.getHeaders(),
+			{
+				model: this.host.settings.customTtsModel,
+				voice: request.voice,
+				input: request.text,
+				speed: request.speed,
+				response_format: format,
+			},
+			RESPONSE_MIME_TYPES[format] ?? "audio/mpeg",
+			request.signal
+		);
+	}
+
+	displaySettings(containerEl: HTMLElement, refresh: () => void) {
+		new Setting(containerEl)
+			.setName("Server URL")
+			.setDesc(
+				"Base URL of the OpenAI-compatible API, including the version path, e.g. http://localhost:8880/v1"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("http://localhost:8880/v1")
+					.setValue(this.host.settings.customTtsBaseUrl)
+					.onChange(async (value) => {
+						this.host.settings.customTtsBaseUrl = value;
+						this.discoveredVoices = null;
+						await this.host.saveSettings();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("refresh-cw")
+					.setTooltip("Discover voices")
+					.onClick(() => {
+						this.discoveredVoices = null;
+						refresh();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Model")
+			.setDesc("Model name sent with each request")
+			.addText((text) =>
+				text
+					.setPlaceholder("tts-1")
+					.setValue(this.host.settings.customTtsModel)
+					.onChange(async (value) => {
+						this.host.settings.customTtsModel = value;
+						await this.host.saveSettings();
+					})
+			);
+
+		displayApiKeySetting(containerEl, this.host, {
+			secret: "openai-compatible",
+			service: this.name,
+			name: "API Key",
+			desc: "Optional. Sent as a Bearer token when set.",
+			test: () =>
+				requestJson(`${this.baseUrl}/models`, this.getHeaders()),
+		});
+
+		new Setting(containerEl)
+			.setName("Custom Headers")
+			.setDesc("Extra request headers, one 'Name: value' per line")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("X-Api-Version: 2")
+					.setValue(this.host.settings.customTtsHeaders)
+					.onChange(async (value) => {
+						this.host.settings.customTtsHeaders = value;
+						await this.host.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Response Format")
+			.setDesc("Audio format requested from the server")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						mp3: "MP3",
+						wav: "WAV",
+						opus: "Opus",
+						aac: "AAC",
+						flac: "FLAC",
+					})
+					.setValue(this.host.settings.customTtsResponseFormat)
+					.onChange(async (value) => {
+						this.host.settings.customTtsResponseFormat = value as
+							| "mp3"
+							| "wav"
+							| "opus"
+							| "aac"
+							| "flac";
+						await this.host.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Custom Voice")
+			.setDesc("Type a voice name if the server does not list its voices")
+			.addText((text) =>
+				text
+					.setValue(this.host.settings.playbackVoice)
+					.onChange(async (value) => {
+						this.host.settings.playbackVoice = value.trim();
+						await this.host.saveSettings();
+					})
+			);
+	}
+}
@@ -0,0 +1,220 @@
+import { Setting } from "obsidian";
+import { displayApiKeySetting } from "./api-key-setting";
+import { fetchAudio, requestJson } from "./http";
+import {
+	AudioProvider,
+	ProviderCapabilities,
+	ProviderHost,
+	SynthesisRequest,
+	VoiceOption,
+} from "./types";
+
+// OpenAI has no endpoint listing its voices
+const OPENAI_VOICES: VoiceOption[] = [
+	{ id: "alloy", name: "Alloy (Neutral)" },
+	{ id: "ash", name: "Ash (Clear)" },
+	{ id: "coral", name: "Coral (Warm)" },
+	{ id: "echo", name: "Echo (Warm)" },
+	{ id: "fable", name: "Fable (Expressive)" },
+	{ id: "onyx", name: "Onyx (Deep)" },
+	{ id: "nova", name: "Nova (Friendly)" },
+	{ id: "sage", name: "Sage (Calm)" },
+	{ id: "shimmer", name: "Shimmer (Clear)" },
+];
+
+/** Voices only the models that take instructions have */
+const STEERABLE_VOICES: VoiceOption[] = [
+	{ id: "ballad", name: "Ballad (Soft)" },
+	{ id: "verse", name: "Verse (Versatile)" },
+];
+
+/** Used when the model list cannot be fetched */
+const OPENAI_MODELS = ["tts-1", "tts-1-hd", "gpt-4o-mini-tts"];
+
+const API_URL = "https://api.openai.com/v1";
+
+/**
+ * List prices in US dollars per million characters. GPT-based models are
+ * billed by token; this is OpenAI's estimate for them.
+ */
+const OPENAI_PRICES: Record<string, number> = {
+	"tts-1": 15,
+	"tts-1-hd": 30,
+	"gpt-4o-mini-tts": 15,
+};
+
+/** GPT-based speech models follow instructions on how to speak */
+function takesInstructions(model: string): boolean {
+	return model.startsWith("gpt-");
+}
+
+export class OpenAIProvider implements AudioProvider {
+	readonly kind = "audio";
+	readonly id = "openai";
+	readonly name = "OpenAI";
+	readonly capabilities: ProviderCapabilities = {
+		wordTimings: false,
+		streaming: false,
+		pitch: false,
+		ssml: false,
+	};
+
+	// Fetched once, and again from the refresh button in settings; null
+	// until a fetch succeeds
+	private models: string[] | null = null;
+
+	constructor(private host: ProviderHost) {}
+
+	private getHeaders(): Record<string, string> {
+		return { Authorization: `Bearer ${this.host.secrets.get("openai")}` };
+	}
+
+	checkConfiguration(): string | null {
+		if (!this.host.secrets.get("openai")) {
+			return "Please enter your OpenAI API key in settings";
+		}
+		return null;
+	}
+
+	getDefaultVoice(): string {
+		return "alloy";
+	}
+
+	async getVoices(): Promise<VoiceOption[]> {
+		if (!this.host.secrets.get("openai")) {
+			return [
+				{
+					id: "openai-default",
+					name: "OpenAI API Key Required",
+				},
+			];
+		}
+		return takesInstructions(this.host.settings.openAIModel)
+			? OPENAI_VOICES.concat(STEERABLE_VOICES)
+			: OPENAI_VOICES;
+	}
+
+	/** The account's speech models */
+	private async getModels(): Promise<string[]> {
+		if (this.models === null && this.host.secrets.get("openai")) {
+			try {
+				const json = (await requestJson(
+					`${API_URL}/models`,
+					this.getHeaders()
+				)) as { data?: Array<{ id: string }> };
+				this.models = (json.data ?? [])
+					.map((model) => model.id)
+					.filter((id) => /tts/.test(id))
+					.sort();
+			} catch (error) {
+				// Left unset, so the next call tries again
+				console.error("Error fetching OpenAI models:", error);
+			}
+		}
+		return this.models?.length ? this.models : OPENAI_MODELS;
+	}
+
+	/** The speaking style to send, for models that take one */
+	private getInstructions(): string | undefined {
+		const settings = this.host.settings;
+		return takesInstructions(settings.openAIModel)
+			? settings.openAIInstructions.trim() || undefined
+			: undefined;
+	}
+
+	getModelId(): string {
+		const instructions = this.getInstructions();
+		return instructions
+			? `${this.host.settings.openAIModel}|${instructions}`
+			: this.host.settings.openAIModel;
+	}
+
+	getMaxInputLength(): number {
+		// GPT-based models take 2,000 tokens, which is at least as many
+		// characters in any language; the others 4,096 characters
+		return takesInstructions(this.host.settings.openAIModel) ? 2000 : 4096;
+	}
+
+	getCharacterPrice(): number {
+		return OPENAI_PRICES[this.host.settings.openAIModel] ?? 15;
+	}
+
+	synthesize(request: SynthesisRequest): Promise<Blob> {
+		return fetchAudio(
+			`${API_URL}/audio/speech`,
+			this.getHeaders(),
+			{
+				model: this.host.settings.openAIModel,
+				voice: request.voice,
+				input: request.text,
+				speed: request.speed,
+				response_format: request.format ?? "mp3",
+				instructions: this.getInstructions(),
+			},
+			request.signal
+		);
+	}
+
+	displaySettings(containerEl: HTMLElement, refresh: () => void) {
+		displayApiKeySetting(containerEl, this.host, {
+			secret: "openai",
+			service: this.name,
+			name: "OpenAI API Key",
+			desc: "Enter your OpenAI API key. You can find or create your API key at https://platform.openai.com/api-keys.",
+			// Listing models is free
+			test: () => requestJson(`${API_URL}/models`, this.getHeaders()),
+			onChange: () => {
+				this.models = null;
+			},
+		});
+
+		new Setting(containerEl)
+			.setName("Model")
+			.setDesc(
+				"tts-1 is fastest, tts-1-hd sounds best, and gpt-4o-mini-tts can be told how to speak"
+			)
+			.addDropdown(async (dropdown) => {
+				const current = this.host.settings.openAIModel;
+				const models = await this.getModels();
+				// Keep a model the list does not offer selectable
+				if (!models.includes(current)) {
+					dropdown.addOption(current, current);
+				}
+				for (const model of models) {
+					dropdown.addOption(model, model);
+				}
+				dropdown.setValue(current).onChange(async (value) => {
+					this.host.settings.openAIModel = value;
+					await this.host.saveSettings();
+					// Show or hide the speaking style
+					refresh();
+				});
+			})
+			.addExtraButton((button) =>
+				button
+					.setIcon("refresh-cw")
+					.setTooltip("Refresh models")
+					.onClick(() => {
+						this.models = null;
+						refresh();
+					})
+			);
+
+		if (takesInstructions(this.host.settings.openAIModel)) {
+			new Setting(containerEl)
+				.setName("Speaking Style")
+				.setDesc(
+					"How the voice should sound, e.g. 'Calm and slow, like an audiobook narrator'"
+				)
+				.addTextArea((text) =>
+					text
+						.setPlaceholder("Speak in a warm, steady tone")
+						.setValue(this.host.settings.openAIInstructions)
+						.onChange(async (value) => {
+							this.host.settings.openAIInstructions = value;
+							await this.host.saveSettings();
+						})
+				);
+		}
+	}
+}
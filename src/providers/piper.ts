@@ -0,0 +1,300 @@
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Setting } from "obsidian";
+import {
+	AudioProvider,
+	ProviderCapabilities,
+	ProviderHost,
+	SynthesisRequest,
+	VoiceOption,
+} from "./types";
+
+let outputCounter = 0;
+
+/** The `.onnx` voice models in `directory`, sorted by file name */
+async function listModels(directory: string): Promise<string[]> {
+	try {
+		return (await fs.readdir(directory))
+			.filter((file) => file.endsWith(".onnx"))
+			.sort();
+	} catch (error) {
+		console.error("Error reading Piper model directory:", error);
+		return [];
+	}
+}
+
+/** The models found in the model directory */
+interface ModelListing {
+	directory: string;
+	models: Promise<string[]>;
+	/** Set once the directory was read */
+	loaded?: string[];
+}
+
+/**
+ * Runs the Piper binary with `args`, feeding `input` on stdin. Resolves once
+ * the process exits cleanly, rejects with the tail of stderr otherwise.
+ */
+function runPiper(
+	binary: string,
+	args: string[],
+	input: string,
+	signal?: AbortSignal
+) {
+	return new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new Error("Piper synthesis aborted"));
+			return;
+		}
+
+		const child = spawn(binary, args, {
+			stdio: ["pipe", "ignore", "pipe"],
+		});
+		let stderr = "";
+
+		const onAbort = () => child.kill();
+		signal?.addEventListener("abort", onAbort);
+
+		child.stderr?.on("data", (data: Buffer) => {
+			stderr = (stderr + data.toString()).slice(-2000);
+		});
+		child.on("error", (error: NodeJS.ErrnoException) => {
+			if (error.code === "ENOENT") {
+				reject(new Error(`Piper binary not found at "${binary}"`));
+			} else {
+				reject(error);
+			}
+		});
+		child.on("close", (code) => {
+			signal?.removeEventListener("abort", onAbort);
+			if (signal?.aborted) {
+				reject(new Error("Piper synthesis aborted"));
+			} else if (code === 0) {
+				resolve();
+			} else {
+				reject(new Error(`Piper exited with code ${code}: ${stderr}`));
+			}
+		});
+
+		// Piper starts a new utterance for every input line
+		child.stdin?.end(input.replace(/\s*\n\s*/g, " ") + "\n");
+	});
+}
+
+/**
+ * A locally installed Piper (https://github.com/rhasspy/piper) voice. Runs
+ * entirely offline; each paragraph becomes a WAV file in the temp folder
+ * that is read back and removed.
+ */
+export class PiperProvider implements AudioProvider {
+	readonly kind = "audio";
+	readonly id = "piper";
+	readonly name = "Piper (Offline)";
+	readonly capabilities: ProviderCapabilities = {
+		wordTimings: false,
+		streaming: false,
+		pitch: false,
+		ssml: false,
+	};
+
+	// Read again when the directory setting changes or from the refresh
+	// button in settings
+	private listing: ModelListing | null = null;
+
+	constructor(private host: ProviderHost) {}
+
+	private getModels(): Promise<string[]> {
+		const directory = this.host.settings.piperModelDirectory.trim();
+		if (this.listing?.directory !== directory) {
+			const listing: ModelListing = {
+				directory,
+				models: directory ? listModels(directory) : Promise.resolve([]),
+			};
+			listing.models.then((models) => (listing.loaded = models));
+			this.listing = listing;
+		}
+		return this.listing.models;
+	}
+
+	/**
+	 * The models in the model directory if it was read already; otherwise
+	 * null, and it is read for next time
+	 */
+	private getLoadedModels(): string[] | null {
+		this.getModels();
+		return this.listing?.loaded ?? null;
+	}
+
+	async prepare() {
+		await this.getModels();
+	}
+
+	checkConfiguration(): string | null {
+		const settings = this.host.settings;
+		if (!settings.piperBinaryPath.trim()) {
+			return "Please enter the path to the Piper binary in settings";
+		}
+		// Checked without a voice: Piper may be a fallback or mapped to a
+		// language, and then reads with its default model. A directory not
+		// read yet passes; synthesize fails if it holds no models after all.
+		if (
+			!settings.piperModelDirectory.trim() ||
+			this.getLoadedModels()?.length === 0
+		) {
+			return "Please choose a Piper model directory with .onnx voice models in settings";
+		}
+		return null;
+	}
+
+	/** The first model in the model directory, once it was read */
+	getDefaultVoice(): string {
+		return this.getLoadedModels()?.[0] ?? "";
+	}
+
+	/** Lists the `.onnx` models in the model directory */
+	async getVoices(): Promise<VoiceOption[]> {
+		const directory = this.host.settings.piperModelDirectory.trim();
+		if (!directory) {
+			return [{ id: "", name: "Choose a model directory first" }];
+		}
+
+		const models = await this.getModels();
+		if (!models.length) {
+			return [{ id: "", name: "No .onnx models found" }];
+		}
+		return models.map((file) => ({ id: file, name: file.slice(0, -5) }));
+	}
+
+	/** The model file for `voice`, or the default model when it is none */
+	private async getModelPath(voice: string): Promise<string> {
+		if (!voice.endsWith(".onnx")) voice = (await this.getModels())[0];
+		if (!voice) throw new Error("No Piper voice model found");
+		if (path.isAbsolute(voice)) return voice;
+		return path.join(this.host.settings.piperModelDirectory.trim(), voice);
+	}
+
+	getModelId(): string {
+		const settings = this.host.settings;
+		return [
+			settings.piperModelDirectory.trim(),
+			settings.piperSpeakerId,
+			settings.piperLengthScale,
+		].join("|");
+	}
+
+	getMaxInputLength(): number {
+		// Piper reads the text from stdin, however long it is
+		return Infinity;
+	}
+
+	async synthesize(request: SynthesisRequest): Promise<Blob> {
+		const settings = this.host.settings;
+		const outputFile = path.join(
+			os.tmpdir(),
+			`note-reader-${process.pid}-${++outputCounter}.wav`
+		);
+
+		// Piper's length scale is the inverse of speed
+		const lengthScale = settings.piperLengthScale / request.speed;
+		const args = [
+			"--model",
+			await this.getModelPath(request.voice),
+			"--output_file",
+			outputFile,
+			"--length_scale",
+			lengthScale.toFixed(2),
+		];
+		if (settings.piperSpeakerId > 0) {
+			args.push("--speaker", String(settings.piperSpeakerId));
+		}
+
+		try {
+			await runPiper(
+				settings.piperBinaryPath.trim(),
+				args,
+				request.text,
+				request.signal
+			);
+			const data = await fs.readFile(outputFile);
+			return new Blob([data], { type: "audio/wav" });
+		} finally {
+			await fs.unlink(outputFile).catch(() => undefined);
+		}
+	}
+
+	displaySettings(containerEl: HTMLElement, refresh: () => void) {
+		new Setting(containerEl)
+			.setName("Piper Binary")
+			.setDesc(
+				"Path to the piper executable, or just 'piper' if it is on your PATH"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("piper")
+					.setValue(this.host.settings.piperBinaryPath)
+					.onChange(async (value) => {
+						this.host.settings.piperBinaryPath = value;
+						await this.host.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Model Directory")
+			.setDesc(
+				"Folder containing Piper voice models (.onnx files with their .onnx.json configs)"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("/home/me/piper-voices")
+					.setValue(this.host.settings.piperModelDirectory)
+					.onChange(async (value) => {
+						this.host.settings.piperModelDirectory = value;
+						await this.host.saveSettings();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("refresh-cw")
+					.setTooltip("Reload models")
+					.onClick(() => {
+						this.listing = null;
+						refresh();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Speaker ID")
+			.setDesc(
+				"Speaker to use for multi-speaker models. Leave at 0 for single-speaker models."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.host.settings.piperSpeakerId))
+					.onChange(async (value) => {
+						const speakerId = parseInt(value, 10);
+						this.host.settings.piperSpeakerId =
+							isNaN(speakerId) || speakerId < 0 ? 0 : speakerId;
+						await this.host.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Length Scale")
+			.setDesc(
+				"Phoneme length. Higher values speak more slowly; playback speed is applied on top."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0.5, 2, 0.05)
+					.setValue(this.host.settings.piperLengthScale)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.host.settings.piperLengthScale = value;
+						await this.host.saveSettings();
+					})
+			);
+	}
+}
@@ -0,0 +1,58 @@
+import { ProviderRegistry } from "./registry";
+import { TTSProvider } from "./types";
+
+function createProvider(id: string, problem: string | null = null) {
+	return {
+		id,
+		name: id,
+		checkConfiguration: () => problem,
+	} as unknown as TTSProvider;
+}
+
+function createRegistry(...providers: TTSProvider[]) {
+	const registry = new ProviderRegistry();
+	providers.forEach((provider) => registry.register(provider));
+	return registry;
+}
+
+describe("ProviderRegistry", () => {
+	test("refuses a second provider with the same id", () => {
+		const registry = createRegistry(createProvider("openai"));
+
+		expect(() => registry.register(createProvider("openai"))).toThrow(
+			'Provider "openai" is already registered'
+		);
+	});
+
+	test("falls back along the chain past failed services", () => {
+		const registry = createRegistry(
+			createProvider("openai"),
+			createProvider("elevenlabs"),
+			createProvider("system")
+		);
+		const chain = ["openai", "elevenlabs", "system"];
+
+		expect(registry.firstUsable(chain, new Set(["openai"]))?.id).toBe(
+			"elevenlabs"
+		);
+		expect(
+			registry.firstUsable(chain, new Set(["openai", "elevenlabs"]))?.id
+		).toBe("system");
+		expect(registry.firstUsable(chain, new Set(chain))).toBeNull();
+	});
+
+	test("skips services that are not set up or not registered", () => {
+		const registry = createRegistry(
+			createProvider("openai"),
+			createProvider("elevenlabs", "Enter an API key"),
+			createProvider("system")
+		);
+
+		expect(
+			registry.firstUsable(
+				["openai", "elevenlabs", "piper", "system"],
+				new Set(["openai"])
+			)?.id
+		).toBe("system");
+	});
+});
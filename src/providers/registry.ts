@@ -0,0 +1,42 @@
+import { TTSProvider } from "./types";
+
+/**
+ * Keeps track of the voice services the plugin can speak with. Built-in
+ * providers register on load; anything registered later shows up in the
+ * settings tab the next time it is opened.
+ */
+export class ProviderRegistry {
+	private providers = new Map<string, TTSProvider>();
+
+	register(provider: TTSProvider) {
+		if (this.providers.has(provider.id)) {
+			throw new Error(`Provider "${provider.id}" is already registered`);
+		}
+		this.providers.set(provider.id, provider);
+	}
+
+	unregister(id: string) {
+		this.providers.delete(id);
+	}
+
+	get(id: string): TTSProvider | undefined {
+		return this.providers.get(id);
+	}
+
+	list(): TTSProvider[] {
+		return Array.from(this.providers.values());
+	}
+
+	/**
+	 * The first of `ids` that is registered, set up and not in `skip`: the
+	 * service to read on with when the ones in `skip` have failed.
+	 */
+	firstUsable(ids: string[], skip: Set<string>): TTSProvider | null {
+		for (const id of ids) {
+			if (skip.has(id)) continue;
+			const provider = this.providers.get(id);
+			if (provider && !provider.checkConfiguration()) return provider;
+		}
+		return null;
+	}
+}
@@ -0,0 +1,109 @@
+import {
+	ProviderCapabilities,
+	ProviderHost,
+	SynthesisRequest,
+	UtteranceProvider,
+	VoiceOption,
+} from "./types";
+
+/**
+ * The operating system's built-in voices, through the Web Speech API.
+ */
+export class SystemProvider implements UtteranceProvider {
+	readonly kind = "utterance";
+	readonly id = "system";
+	readonly name = "System Native";
+	readonly capabilities: ProviderCapabilities = {
+		wordTimings: true,
+		streaming: true,
+		pitch: true,
+		ssml: false,
+	};
+
+	private speechSynthesis: SpeechSynthesis = window.speechSynthesis;
+	private defaultVoice: SpeechSynthesisVoice | null = null;
+
+	constructor(private host: ProviderHost) {
+		// Load voices and set default
+		const loadVoices = () => {
+			const voices = this.speechSynthesis.getVoices();
+
+			// Try to find the system default voice
+			this.defaultVoice = voices.find((voice) => voice.default) || null;
+
+			// If no default voice is found, try one for the app's language,
+			// then a suitable English voice
+			if (!this.defaultVoice) {
+				const language = navigator.language.toLowerCase();
+				this.defaultVoice =
+					voices.find((voice) =>
+						voice.lang.toLowerCase().startsWith(language)
+					) ||
+					voices.find(
+						(voice) =>
+							voice.lang.startsWith("en-") ||
+							voice.name.toLowerCase().includes("samantha") ||
+							voice.name.toLowerCase().includes("alex")
+					) ||
+					voices[0] ||
+					null;
+			}
+
+			if (!this.defaultVoice) {
+				console.warn("No suitable voice found");
+			}
+		};
+
+		// Load voices immediately in case they're already available
+		loadVoices();
+
+		// Also set up the event listener for when voices are loaded asynchronously
+		this.speechSynthesis.onvoiceschanged = loadVoices;
+	}
+
+	checkConfiguration(): string | null {
+		return null;
+	}
+
+	getDefaultVoice(): string {
+		const voices = this.speechSynthesis.getVoices();
+		const defaultVoice = voices.find((v) => v.default) || voices[0];
+		return defaultVoice?.voiceURI || "default";
+	}
+
+	async getVoices(): Promise<VoiceOption[]> {
+		return this.speechSynthesis.getVoices().map((voice) => ({
+			id: voice.voiceURI,
+			name: voice.name,
+		}));
+	}
+
+	createUtterance(request: SynthesisRequest): SpeechSynthesisUtterance {
+		const utterance = new SpeechSynthesisUtterance(request.text);
+		utterance.rate = request.speed;
+		utterance.pitch = this.host.settings.pitch;
+		utterance.volume = this.host.settings.volume;
+
+		const voices = this.speechSynthesis.getVoices();
+		let selectedVoice = voices.find((v) => v.voiceURI === request.voice);
+		if (request.language) {
+			// A voice for another language would mispronounce the text
+			const language = request.language.toLowerCase();
+			const speaks = (v: SpeechSynthesisVoice) =>
+				v.lang.toLowerCase().replace("_", "-").startsWith(language);
+			if (!selectedVoice || !speaks(selectedVoice)) {
+				selectedVoice = voices.find(speaks) ?? selectedVoice;
+			}
+			utterance.lang = request.language;
+		}
+		const voice = selectedVoice || this.defaultVoice;
+		if (voice) {
+			utterance.voice = voice;
+		}
+		return utterance;
+	}
+
+	displaySettings(containerEl: HTMLElement, refresh: () => void) {
+		// System voices need no extra configuration
+	}
+}
@@ -0,0 +1,151 @@
+import { WordTiming } from "../alignment";
+import { SecretStore } from "../secrets";
+import { TextToSpeechSettings } from "../settings";
+
+export interface VoiceOption {
+	id: string;
+	name: string;
+}
+
+export interface ProviderCapabilities {
+	/**
+	 * Reports the position of each spoken word while playing (utterances)
+	 * or alongside the clip (audio)
+	 */
+	wordTimings: boolean;
+	/** Can start playing before the whole clip has been generated */
+	streaming: boolean;
+	/** Honours the pitch setting */
+	pitch: boolean;
+	/** Accepts SSML markup as input, see AudioProvider.acceptsSsml */
+	ssml: boolean;
+}
+
+/** Containers a note can be exported to */
+export type AudioFormat = "mp3" | "wav" | "opus";
+
+export interface SynthesisRequest {
+	text: string;
+	voice: string;
+	speed: number;
+	/**
+	 * Preferred container, e.g. for exports. Providers that cannot produce
+	 * it return their usual format instead.
+	 */
+	format?: AudioFormat;
+	/** BCP 47 language of the text, when known */
+	language?: string;
+	/**
+	 * The text with SSML phoneme tags from the pronunciation lexicon, set
+	 * for providers with the `ssml` capability when the text has any
+	 */
+	ssml?: string;
+	/** Aborted when the clip is no longer wanted, e.g. after a skip */
+	signal?: AbortSignal;
+}
+
+/** A synthesized clip, with the time each word is spoken when known */
+export interface TimedAudio {
+	audio: Blob;
+	timings?: WordTiming[];
+}
+
+/**
+ * The part of the plugin a provider is allowed to see.
+ */
+export interface ProviderHost {
+	settings: TextToSpeechSettings;
+	/** API keys, kept out of the settings */
+	secrets: SecretStore;
+	saveSettings(): Promise<void>;
+}
+
+interface BaseProvider {
+	/** Stored in `voiceService`, so it must never change once released */
+	readonly id: string;
+	readonly name: string;
+	readonly capabilities: ProviderCapabilities;
+
+	/**
+	 * Returns a message telling the user what is missing (an API key, a
+	 * binary path, ...) or null when the provider is ready to speak.
+	 */
+	checkConfiguration(): string | null;
+
+	/** Voice selected when the user switches to this provider */
+	getDefaultVoice(): string;
+	getVoices(): Promise<VoiceOption[]>;
+
+	/**
+	 * Renders the provider's own settings (keys, endpoints, ...) into the
+	 * settings tab. `refresh` redraws the whole tab.
+	 */
+	displaySettings(containerEl: HTMLElement, refresh: () => void): void;
+}
+
+/**
+ * A provider that renders text to an audio clip which the plugin plays.
+ */
+export interface AudioProvider extends BaseProvider {
+	readonly kind: "audio";
+	/**
+	 * Slowest and fastest speed the service synthesizes at. Clips for
+	 * other speeds are synthesized at the nearest one and played faster or
+	 * slower. Any speed is taken when left out.
+	 */
+	readonly speedRange?: [number, number];
+	synthesize(request: SynthesisRequest): Promise<Blob>;
+
+	/**
+	 * Like synthesize, but also returns when each word is spoken. Providers
+	 * with the wordTimings capability implement this; the plugin estimates
+	 * timings from the clip's duration for the others.
+	 */
+	synthesizeWithTimings?(request: SynthesisRequest): Promise<TimedAudio>;
+
+	/**
+	 * Identifies everything besides voice, speed and text that shapes the
+	 * audio (model, endpoint, format, ...). Part of the audio cache key.
+	 * Services with separate models per language pick by `language`.
+	 */
+	getModelId(language?: string): string;
+
+	/**
+	 * Loads what the provider needs to know before reading, e.g. the
+	 * limits of each model or the models installed, so checks and limits
+	 * need not wait for it. Called once the workspace is ready; a provider
+	 * that fails tries again later by itself.
+	 */
+	prepare?(): Promise<void>;
+
+	/**
+	 * Longest text, in characters, the service accepts in one request for
+	 * text in `language`, which may pick the model. Longer paragraphs are
+	 * synthesized in parts.
+	 */
+	getMaxInputLength(language?: string): number;
+
+	/**
+	 * For providers with the ssml capability whose models do not all read
+	 * SSML: whether the model used for `language` does. Requests for
+	 * models that do not get no `ssml`, and are sent as plain text.
+	 */
+	acceptsSsml?(language?: string): boolean;
+
+	/**
+	 * Estimated US dollars per million characters, for services that bill
+	 * by the character. Used for the usage ledger and spending cap; local
+	 * and free services leave it out.
+	 */
+	getCharacterPrice?(language?: string): number;
+}
+
+/**
+ * A provider that speaks through the Web Speech API.
+ */
+export interface UtteranceProvider extends BaseProvider {
+	readonly kind: "utterance";
+	createUtterance(request: SynthesisRequest): SpeechSynthesisUtterance;
+}
+
+export type TTSProvider = AudioProvider | UtteranceProvider;
@@ -0,0 +1,158 @@
+import { App, CachedMetadata, TFile, TFolder } from "obsidian";
+import {
+	formatPlaylist,
+	getFolderNotes,
+	getPlaylistNotes,
+	getTaggedNotes,
+	ReadingQueue,
+} from "./queue";
+
+function createFile(path: string): TFile {
+	const file = new TFile();
+	file.path = path;
+	file.name = path.split("/").pop() ?? path;
+	file.extension = file.name.split(".").pop() ?? "";
+	file.basename = file.name.replace(/\.[^.]*$/, "");
+	return file;
+}
+
+function createFolder(path: string, children: (TFile | TFolder)[]): TFolder {
+	const folder = new TFolder();
+	folder.path = path;
+	folder.children = children;
+	return folder;
+}
+
+/** A vault holding `files`, with the metadata of each by path */
+function createApp(
+	files: TFile[],
+	metadata: Record<string, CachedMetadata> = {}
+): App {
+	return {
+		vault: {
+			getMarkdownFiles: () =>
+				files.filter((file) => file.extension === "md"),
+		},
+		metadataCache: {
+			getFileCache: (file: TFile) => metadata[file.path] ?? null,
+			getFirstLinkpathDest: (link: string) =>
+				files.find((file) => file.basename === link) ?? null,
+		},
+		fileManager: {
+			generateMarkdownLink: (file: TFile) => `[[${file.basename}]]`,
+		},
+	} as unknown as App;
+}
+
+const paths = (files: TFile[]) => files.map((file) => file.path);
+
+describe("ReadingQueue", () => {
+	test("adds notes at the end, once each", () => {
+		const queue = new ReadingQueue();
+		queue.add(["a.md", "b.md"]);
+		queue.add(["b.md", "c.md"]);
+
+		expect(queue.list()).toEqual(["a.md", "b.md", "c.md"]);
+		expect(queue.current()).toBeNull();
+	});
+
+	test("starts over when replaced or cleared", () => {
+		const queue = new ReadingQueue();
+		queue.set(["a.md", "b.md"]);
+		queue.index = 1;
+		queue.set(["c.md"]);
+
+		expect(queue.index).toBe(-1);
+		expect(queue.list()).toEqual(["c.md"]);
+
+		queue.clear();
+		expect(queue.length).toBe(0);
+	});
+
+	test("stays on the current note when an earlier one is removed", () => {
+		const queue = new ReadingQueue();
+		queue.set(["a.md", "b.md", "c.md"]);
+		queue.index = 1;
+
+		queue.remove("a.md");
+		expect(queue.current()).toBe("b.md");
+		queue.remove("c.md");
+		expect(queue.current()).toBe("b.md");
+		expect(queue.has(queue.index + 1)).toBe(false);
+	});
+
+	test("follows renamed notes", () => {
+		const queue = new ReadingQueue();
+		queue.set(["a.md", "b.md"]);
+		queue.rename("a.md", "archive/a.md");
+
+		expect(queue.list()).toEqual(["archive/a.md", "b.md"]);
+	});
+});
+
+describe("getFolderNotes", () => {
+	test("lists notes in subfolders too, in file explorer order", () => {
+		const folder = createFolder("Book", [
+			createFile("Book/Chapter 10.md"),
+			createFile("Book/cover.png"),
+			createFolder("Book/Appendix", [createFile("Book/Appendix/A.md")]),
+			createFile("Book/Chapter 2.md"),
+		]);
+
+		expect(paths(getFolderNotes(folder))).toEqual([
+			"Book/Appendix/A.md",
+			"Book/Chapter 2.md",
+			"Book/Chapter 10.md",
+		]);
+	});
+});
+
+describe("getTaggedNotes", () => {
+	test("finds notes with the tag or a nested one, in any case", () => {
+		const files = [
+			createFile("c.md"),
+			createFile("a.md"),
+			createFile("b.md"),
+			createFile("d.md"),
+		];
+		const app = createApp(files, {
+			"a.md": { tags: [{ tag: "#Reading" }] } as CachedMetadata,
+			"b.md": { frontmatter: { tags: ["reading/later"] } },
+			"c.md": { tags: [{ tag: "#reading" }] } as CachedMetadata,
+			"d.md": { tags: [{ tag: "#readings" }] } as CachedMetadata,
+		});
+
+		expect(paths(getTaggedNotes(app, "#reading"))).toEqual([
+			"a.md",
+			"b.md",
+			"c.md",
+		]);
+	});
+});
+
+describe("playlists", () => {
+	const notes = [
+		createFile("Second.md"),
+		createFile("First.md"),
+		createFile("Image.png"),
+	];
+
+	test("read back in the order they were saved", () => {
+		const playlist = createFile("Playlist.md");
+		const app = createApp([...notes, playlist]);
+		const body = formatPlaylist(app, notes.slice(0, 2), playlist.path);
+		expect(body).toBe("- [[Second]]\n- [[First]]");
+
+		const links = ["Second", "First#Part", "Second", "Image", "Playlist"];
+		const saved = createApp([...notes, playlist], {
+			"Playlist.md": {
+				links: links.map((link) => ({ link })),
+			} as CachedMetadata,
+		});
+
+		expect(paths(getPlaylistNotes(saved, playlist))).toEqual([
+			"Second.md",
+			"First.md",
+		]);
+	});
+});
@@ -0,0 +1,156 @@
+import { App, getAllTags, TFile, TFolder } from "obsidian";
+
+/**
+ * Notes to read one after another, by path. The note being read is at
+ * `index`; -1 means the queue has not started.
+ */
+export class ReadingQueue {
+	private paths: string[] = [];
+	index = -1;
+
+	get length(): number {
+		return this.paths.length;
+	}
+
+	list(): string[] {
+		return this.paths.slice();
+	}
+
+	current(): string | null {
+		return this.paths[this.index] ?? null;
+	}
+
+	has(index: number): boolean {
+		return index >= 0 && index < this.paths.length;
+	}
+
+	get(index: number): string | null {
+		return this.paths[index] ?? null;
+	}
+
+	/** Replaces the queue, e.g. with the notes of a folder */
+	set(paths: string[]) {
+		this.paths = paths.slice();
+		this.index = -1;
+	}
+
+	/** Adds notes at the end, skipping ones already queued */
+	add(paths: string[]) {
+		for (const path of paths) {
+			if (this.paths.indexOf(path) === -1) this.paths.push(path);
+		}
+	}
+
+	clear() {
+		this.paths = [];
+		this.index = -1;
+	}
+
+	rename(oldPath: string, newPath: string) {
+		const index = this.paths.indexOf(oldPath);
+		if (index !== -1) this.paths[index] = newPath;
+	}
+
+	remove(path: string) {
+		const index = this.paths.indexOf(path);
+		if (index === -1) return;
+		this.paths.splice(index, 1);
+		if (index <= this.index) this.index--;
+	}
+}
+
+function byPath(a: TFile, b: TFile): number {
+	return a.path.localeCompare(b.path, undefined, { numeric: true });
+}
+
+/** Markdown notes in `folder` and its subfolders, in file explorer order */
+export function getFolderNotes(folder: TFolder): TFile[] {
+	const notes: TFile[] = [];
+	const visit = (current: TFolder) => {
+		for (const child of current.children) {
+			if (child instanceof TFolder) {
+				visit(child);
+			} else if (child instanceof TFile && child.extension === "md") {
+				notes.push(child);
+			}
+		}
+	};
+	visit(folder);
+	return notes.sort(byPath);
+}
+
+/** Every tag used in the vault, without duplicates */
+export function getVaultTags(app: App): string[] {
+	const tags = new Set<string>();
+	for (const file of app.vault.getMarkdownFiles()) {
+		const cache = app.metadataCache.getFileCache(file);
+		if (!cache) continue;
+		for (const tag of getAllTags(cache) ?? []) tags.add(tag);
+	}
+	return Array.from(tags).sort();
+}
+
+/** Notes tagged `tag` or one of its nested tags */
+export function getTaggedNotes(app: App, tag: string): TFile[] {
+	const wanted = tag.toLowerCase();
+	return app.vault
+		.getMarkdownFiles()
+		.filter((file) => {
+			const cache = app.metadataCache.getFileCache(file);
+			return (getAllTags(cache ?? {}) ?? []).some((candidate) => {
+				const lower = candidate.toLowerCase();
+				return lower === wanted || lower.startsWith(`${wanted}/`);
+			});
+		})
+		.sort(byPath);
+}
+
+/** Notes that link to `file` */
+export function getBacklinkNotes(app: App, file: TFile): TFile[] {
+	const notes: TFile[] = [];
+	const links = app.metadataCache.resolvedLinks;
+	for (const source of Object.keys(links)) {
+		if (source === file.path || !links[source][file.path]) continue;
+		const note = app.vault.getAbstractFileByPath(source);
+		if (note instanceof TFile && note.extension === "md") notes.push(note);
+	}
+	return notes.sort(byPath);
+}
+
+/**
+ * Notes linked from a playlist note, in the order they appear. Any note
+ * with links can be played this way.
+ */
+export function getPlaylistNotes(app: App, playlist: TFile): TFile[] {
+	const links = app.metadataCache.getFileCache(playlist)?.links ?? [];
+	const notes: TFile[] = [];
+	for (const link of links) {
+		const note = app.metadataCache.getFirstLinkpathDest(
+			link.link.split("#")[0],
+			playlist.path
+		);
+		if (
+			note &&
+			note.extension === "md" &&
+			note !== playlist &&
+			notes.indexOf(note) === -1
+		) {
+			notes.push(note);
+		}
+	}
+	return notes;
+}
+
+/** Body of a playlist note listing `notes` */
+export function formatPlaylist(
+	app: App,
+	notes: TFile[],
+	sourcePath: string
+): string {
+	return notes
+		.map(
+			(note) =>
+				`- ${app.fileManager.generateMarkdownLink(note, sourcePath)}`
+		)
+		.join("\n");
+}
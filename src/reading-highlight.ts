@@ -0,0 +1,301 @@
+import { MarkdownPostProcessorContext } from "obsidian";
+import { HighlightKind } from "./editor-highlight";
+
+const LINE_START = "ttsLineStart";
+const LINE_END = "ttsLineEnd";
+
+/**
+ * Markdown post-processor that records which source lines each rendered
+ * block came from, so spoken ranges can be found in Reading view.
+ */
+export function tagSourceLines(
+	el: HTMLElement,
+	ctx: MarkdownPostProcessorContext
+) {
+	const info = ctx.getSectionInfo(el);
+	if (!info) return;
+	el.dataset[LINE_START] = String(info.lineStart);
+	el.dataset[LINE_END] = String(info.lineEnd);
+}
+
+/** Source lines of the rendered block holding `node`, if it was tagged */
+export function getBlockLines(
+	node: Node
+): { lineStart: number; lineEnd: number } | null {
+	const element = node instanceof HTMLElement ? node : node.parentElement;
+	const block = element?.closest<HTMLElement>("[data-tts-line-start]");
+	if (!block) return null;
+	return {
+		lineStart: Number(block.dataset[LINE_START]),
+		lineEnd: Number(block.dataset[LINE_END]),
+	};
+}
+
+/** Part of a block being read, to be found in the rendered note */
+export interface ReadingRange {
+	kind: HighlightKind;
+	/** Source lines of the block */
+	lineStart: number;
+	lineEnd: number;
+	/** Spoken text of the block, as produced by prepareSpeech */
+	blockText: string;
+	/** Range of `blockText` to mark; the whole block when unset */
+	start?: number;
+	length?: number;
+	css?: string;
+}
+
+// Leading and trailing characters that may differ from the rendered text,
+// e.g. the pauses inserted after list items
+const EDGE_PUNCTUATION = /^[^\w\u00c0-\uffff]+|[^\w\u00c0-\uffff]+$/g;
+
+function normalize(text: string): string {
+	return text.replace(/\s+/g, " ");
+}
+
+function countOccurrences(text: string, search: string): number {
+	let count = 0;
+	let index = text.indexOf(search);
+	while (index !== -1) {
+		count++;
+		index = text.indexOf(search, index + search.length);
+	}
+	return count;
+}
+
+interface TextIndex {
+	/** Rendered text with runs of whitespace collapsed */
+	text: string;
+	/** For each character of `text`, its node and offset in the DOM */
+	positions: { node: Text; offset: number }[];
+}
+
+function indexText(blocks: HTMLElement[]): TextIndex {
+	const index: TextIndex = { text: "", positions: [] };
+	let lastWasSpace = false;
+
+	for (const block of blocks) {
+		const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+		let node = walker.nextNode() as Text | null;
+		while (node) {
+			const value = node.data;
+			for (let i = 0; i < value.length; i++) {
+				const isSpace = /\s/.test(value[i]);
+				if (isSpace && lastWasSpace) continue;
+				index.text += isSpace ? " " : value[i];
+				index.positions.push({ node, offset: i });
+				lastWasSpace = isSpace;
+			}
+			node = walker.nextNode() as Text | null;
+		}
+		// Blocks are separated like paragraphs
+		if (!lastWasSpace && index.positions.length > 0) {
+			index.text += " ";
+			index.positions.push(index.positions[index.positions.length - 1]);
+			lastWasSpace = true;
+		}
+	}
+	return index;
+}
+
+/**
+ * Highlights the paragraph and word being read in a note's Reading view.
+ * Blocks get a class; words and sentences are wrapped in spans, which are
+ * unwrapped again before the next update.
+ */
+export class ReadingHighlighter {
+	private blocks: HTMLElement[] = [];
+	private marks: HTMLElement[] = [];
+
+	/**
+	 * Replaces the current highlights with `ranges`. With `scroll`, the
+	 * spoken block is kept in view, and `reveal` is called with a source
+	 * line when its block has not been rendered yet, which happens for
+	 * blocks far outside the visible part of the note.
+	 */
+	render(
+		container: HTMLElement,
+		ranges: ReadingRange[],
+		scroll: boolean,
+		reveal: (line: number) => void
+	) {
+		this.clear();
+
+		for (const range of ranges) {
+			const blocks = this.findBlocks(container, range);
+			if (blocks.length === 0) {
+				if (scroll) reveal(range.lineStart);
+				continue;
+			}
+
+			if (range.start === undefined || range.length === undefined) {
+				for (const block of blocks) {
+					block.addClass(
+						"tts-highlight",
+						`tts-highlighted-${range.kind}`
+					);
+					this.blocks.push(block);
+				}
+				if (scroll) blocks[0].scrollIntoView({ block: "nearest" });
+				continue;
+			}
+
+			const marks = this.wrap(blocks, range);
+			if (scroll) {
+				marks[marks.length - 1]?.scrollIntoView({ block: "nearest" });
+			}
+		}
+	}
+
+	clear() {
+		for (const block of this.blocks) {
+			block.removeClass(
+				"tts-highlight",
+				"tts-highlighted-paragraph",
+				"tts-highlighted-sentence",
+				"tts-highlighted-word"
+			);
+		}
+		this.blocks = [];
+
+		for (const mark of this.marks) {
+			const parent = mark.parentNode;
+			if (!parent) continue;
+			while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+			parent.removeChild(mark);
+			parent.normalize();
+		}
+		this.marks = [];
+	}
+
+	/**
+	 * The reverse of highlighting: finds the word at DOM position
+	 * `node`/`offset` in the spoken text of `range`'s block. Returns its
+	 * spoken offset, or null when it cannot be matched.
+	 */
+	spokenOffsetAt(
+		container: HTMLElement,
+		range: ReadingRange,
+		node: Node,
+		offset: number
+	): number | null {
+		const index = indexText(this.findBlocks(container, range));
+		const position = index.positions.findIndex(
+			(candidate) => candidate.node === node && candidate.offset >= offset
+		);
+		if (position === -1) return null;
+
+		let start = position;
+		while (start > 0 && index.text[start - 1] !== " ") start--;
+		let end = position;
+		while (end < index.text.length && index.text[end] !== " ") end++;
+		const search = index.text
+			.slice(start, end)
+			.replace(EDGE_PUNCTUATION, "");
+		if (!search) return null;
+
+		const occurrence = countOccurrences(index.text.slice(0, start), search);
+		const spoken = range.blockText;
+		let found = -1;
+		for (let i = 0; i <= occurrence; i++) {
+			const next = spoken.indexOf(
+				search,
+				found === -1 ? 0 : found + search.length
+			);
+			if (next === -1) break;
+			found = next;
+		}
+		return found === -1 ? null : found;
+	}
+
+	private findBlocks(
+		container: HTMLElement,
+		range: ReadingRange
+	): HTMLElement[] {
+		const blocks: HTMLElement[] = [];
+		container
+			.querySelectorAll<HTMLElement>("[data-tts-line-start]")
+			.forEach((block) => {
+				const start = Number(block.dataset[LINE_START]);
+				const end = Number(block.dataset[LINE_END]);
+				if (start <= range.lineEnd && end >= range.lineStart) {
+					blocks.push(block);
+				}
+			});
+		return blocks;
+	}
+
+	/**
+	 * Finds the spoken text in the rendered blocks by content: the same
+	 * occurrence of the same text, ignoring whitespace and the punctuation
+	 * around it.
+	 */
+	private wrap(blocks: HTMLElement[], range: ReadingRange): HTMLElement[] {
+		const start = range.start ?? 0;
+		const search = normalize(
+			range.blockText.substr(start, range.length)
+		).replace(EDGE_PUNCTUATION, "");
+		if (!search) return [];
+
+		const occurrence = countOccurrences(
+			normalize(range.blockText.slice(0, start)),
+			search
+		);
+
+		const index = indexText(blocks);
+		let found = -1;
+		for (let i = 0; i <= occurrence; i++) {
+			const next = index.text.indexOf(
+				search,
+				found === -1 ? 0 : found + search.length
+			);
+			// Fewer matches than expected: keep the last one we saw
+			if (next === -1) break;
+			found = next;
+		}
+		if (found === -1) return [];
+
+		// Wrap each text node touched by the match on its own
+		const marks: HTMLElement[] = [];
+		const wrapped = new Set<Text>();
+		let i = found;
+		const end = found + search.length;
+		while (i < end) {
+			const { node, offset } = index.positions[i];
+			let last = offset;
+			while (
+				i + 1 < end &&
+				index.positions[i + 1].node === node &&
+				index.positions[i + 1].offset > last
+			) {
+				i++;
+				last = index.positions[i].offset;
+			}
+			i++;
+			// Block separators repeat the last character of a block
+			if (wrapped.has(node)) continue;
+			wrapped.add(node);
+			marks.push(this.wrapText(node, offset, last + 1, range));
+		}
+		return marks;
+	}
+
+	private wrapText(
+		node: Text,
+		from: number,
+		to: number,
+		range: ReadingRange
+	): HTMLElement {
+		const target = node.splitText(from);
+		target.splitText(to - from);
+
+		const mark = createSpan({
+			cls: ["tts-highlight", `tts-highlighted-${range.kind}`],
+		});
+		if (range.css) mark.setAttribute("style", range.css);
+		target.parentNode?.insertBefore(mark, target);
+		mark.appendChild(target);
+		this.marks.push(mark);
+		return mark;
+	}
+}
@@ -0,0 +1,141 @@
+import { SecretStore } from "./secrets";
+
+/** This device's local storage */
+let storage: Map<string, string>;
+/** Whether the system keychain can encrypt, or "broken" when it throws */
+let keychain: boolean | "broken";
+/** The keys kept in the settings */
+let apiKeys: Record<string, string>;
+/** What `require("electron")` returns; nothing on mobile */
+let electron: object | undefined;
+
+const safeStorage = {
+	isEncryptionAvailable: () => !!keychain,
+	encryptString: (plainText: string) => {
+		if (keychain === "broken") throw new Error("Keychain locked");
+		return Buffer.from("sealed:" + plainText);
+	},
+	decryptString: (encrypted: Buffer) =>
+		encrypted.toString().replace(/^sealed:/, ""),
+};
+
+beforeEach(() => {
+	storage = new Map();
+	keychain = true;
+	apiKeys = {};
+	electron = { remote: { safeStorage } };
+	(global as unknown as { window: unknown }).window = {
+		localStorage: {
+			getItem: (key: string) => storage.get(key) ?? null,
+			setItem: (key: string, value: string) => storage.set(key, value),
+			removeItem: (key: string) => storage.delete(key),
+		},
+		require: (module: string) =>
+			module === "electron" ? electron : undefined,
+	};
+	delete process.env.OPENAI_API_KEY;
+});
+
+afterEach(() => {
+	delete (global as unknown as { window?: unknown }).window;
+	delete process.env.OPENAI_API_KEY;
+	jest.restoreAllMocks();
+});
+
+function createStore() {
+	return new SecretStore("vault-", () => apiKeys);
+}
+
+describe("SecretStore", () => {
+	test("keeps keys in the keychain, out of the settings", () => {
+		createStore().set("openai", "sk-test");
+
+		expect(storage.get("vault-openai")).toBe(
+			"keychain:" + Buffer.from("sealed:sk-test").toString("base64")
+		);
+		expect(apiKeys).toEqual({});
+
+		// A new session decrypts what the last one stored
+		const store = createStore();
+		expect(store.get("openai")).toBe("sk-test");
+		expect(store.source("openai")).toBe("keychain");
+	});
+
+	test("keeps keys in the settings without a keychain", () => {
+		keychain = false;
+		const store = createStore();
+		store.set("openai", "sk-test");
+
+		expect(apiKeys).toEqual({ openai: "sk-test" });
+		expect(storage.size).toBe(0);
+		expect(store.get("openai")).toBe("sk-test");
+		expect(store.source("openai")).toBe("settings");
+	});
+
+	test("keeps keys in the settings on mobile", () => {
+		electron = undefined;
+		const store = createStore();
+		store.set("elevenlabs", "el-test");
+
+		expect(apiKeys).toEqual({ elevenlabs: "el-test" });
+		expect(store.source("elevenlabs")).toBe("settings");
+	});
+
+	test("removes a key set to nothing", () => {
+		const store = createStore();
+		store.set("openai", "sk-test");
+		store.set("openai", "");
+
+		expect(storage.size).toBe(0);
+		expect(store.get("openai")).toBe("");
+		expect(store.source("openai")).toBeNull();
+	});
+
+	test("falls back to the environment when no key is stored", () => {
+		process.env.OPENAI_API_KEY = " sk-env \n";
+		const store = createStore();
+
+		expect(store.get("openai")).toBe("sk-env");
+		expect(store.getStored("openai")).toBe("");
+		expect(store.source("openai")).toBe("environment");
+
+		store.set("openai", "sk-stored");
+		expect(store.get("openai")).toBe("sk-stored");
+		expect(store.source("openai")).toBe("keychain");
+	});
+
+	test("moves keys from the settings of earlier versions", () => {
+		const settings = {
+			openAIApiKey: "sk-old",
+			elevenLabsApiKey: "",
+			volume: 1,
+		};
+		const store = createStore();
+
+		expect(store.migrate(settings)).toBe(true);
+		expect(settings).toEqual({ volume: 1 });
+		expect(store.get("openai")).toBe("sk-old");
+		expect(store.source("openai")).toBe("keychain");
+
+		expect(store.migrate(settings)).toBe(false);
+	});
+
+	test("does not overwrite a key stored since", () => {
+		const store = createStore();
+		store.set("openai", "sk-new");
+
+		store.migrate({ openAIApiKey: "sk-old" });
+		expect(store.get("openai")).toBe("sk-new");
+	});
+
+	test("keeps the old field when the keychain fails", () => {
+		jest.spyOn(console, "error").mockImplementation(() => undefined);
+		keychain = "broken";
+		const settings = { openAIApiKey: "sk-old" };
+		const store = createStore();
+
+		expect(store.migrate(settings)).toBe(false);
+		expect(settings).toEqual({ openAIApiKey: "sk-old" });
+		expect(store.getStored("openai")).toBe("");
+	});
+});
@@ -0,0 +1,166 @@
+/** The API keys the plugin keeps */
+export type SecretName = "elevenlabs" | "openai" | "openai-compatible";
+
+/** Where a key comes from */
+export type SecretSource = "keychain" | "settings" | "environment";
+
+/** Environment variables checked when no key is stored */
+export const ENVIRONMENT_VARIABLES: Record<SecretName, string> = {
+	elevenlabs: "ELEVENLABS_API_KEY",
+	openai: "OPENAI_API_KEY",
+	"openai-compatible": "TTS_SERVER_API_KEY",
+};
+
+/** Settings fields the keys were saved in, in plain text, before */
+const LEGACY_FIELDS: Record<string, SecretName> = {
+	elevenLabsApiKey: "elevenlabs",
+	openAIApiKey: "openai",
+	customTtsApiKey: "openai-compatible",
+};
+
+// Electron's safeStorage, reached through the remote module on desktop
+interface SafeStorage {
+	isEncryptionAvailable(): boolean;
+	encryptString(plainText: string): Buffer;
+	decryptString(encrypted: Buffer): string;
+}
+
+function getSafeStorage(): SafeStorage | null {
+	try {
+		const electron = (
+			window as unknown as {
+				require?: (module: string) => {
+					remote?: { safeStorage?: SafeStorage };
+				};
+			}
+		).require?.("electron");
+		const safeStorage = electron?.remote?.safeStorage;
+		return safeStorage?.isEncryptionAvailable() ? safeStorage : null;
+	} catch (error) {
+		// Mobile, or an Electron without the remote module
+		return null;
+	}
+}
+
+/** The key set in `name`'s environment variable, if any */
+export function readEnvironment(name: SecretName): string {
+	if (typeof process === "undefined") return "";
+	return process.env[ENVIRONMENT_VARIABLES[name]]?.trim() ?? "";
+}
+
+/**
+ * Keeps API keys out of data.json, which syncs with the vault, where the
+ * system keychain can encrypt them: keys are then stored in this device's
+ * local storage through Electron's safeStorage. Elsewhere, e.g. on mobile,
+ * they stay in the settings, and the settings tab says so. A key that is
+ * not stored is read from its environment variable.
+ */
+export class SecretStore {
+	private safeStorage = getSafeStorage();
+	/** Keys decrypted from local storage */
+	private cache = new Map<SecretName, string>();
+
+	/**
+	 * `prefix` keeps the keys of different vaults apart; `plainText` holds
+	 * the keys kept in the settings
+	 */
+	constructor(
+		private prefix: string,
+		private plainText: () => Record<string, string>
+	) {}
+
+	/** The key to use: the stored one, or else the environment's */
+	get(name: SecretName): string {
+		return this.getStored(name) || readEnvironment(name);
+	}
+
+	/** The key saved for this device, without the environment */
+	getStored(name: SecretName): string {
+		return this.getEncrypted(name) || (this.plainText()[name] ?? "");
+	}
+
+	/**
+	 * Saves `value` for `name`; an empty value removes the key. Throws when
+	 * the keychain fails, leaving the stored key as it was. Keys kept in the
+	 * settings are only written to data.json once the settings are saved.
+	 */
+	set(name: SecretName, value: string) {
+		const storageKey = this.prefix + name;
+		const plainText = this.plainText();
+		if (value && this.safeStorage) {
+			const encrypted = this.safeStorage.encryptString(value);
+			window.localStorage.setItem(
+				storageKey,
+				"keychain:" + encrypted.toString("base64")
+			);
+			delete plainText[name];
+			this.cache.set(name, value);
+			return;
+		}
+
+		window.localStorage.removeItem(storageKey);
+		this.cache.set(name, "");
+		if (value) {
+			plainText[name] = value;
+		} else {
+			delete plainText[name];
+		}
+	}
+
+	source(name: SecretName): SecretSource | null {
+		if (this.getEncrypted(name)) return "keychain";
+		if (this.plainText()[name]) return "settings";
+		return readEnvironment(name) ? "environment" : null;
+	}
+
+	private getEncrypted(name: SecretName): string {
+		let value = this.cache.get(name);
+		if (value === undefined) {
+			value = this.decrypt(name);
+			this.cache.set(name, value);
+		}
+		return value;
+	}
+
+	private decrypt(name: SecretName): string {
+		const stored = window.localStorage.getItem(this.prefix + name);
+		if (!stored?.startsWith("keychain:") || !this.safeStorage) return "";
+		try {
+			return this.safeStorage.decryptString(
+				Buffer.from(stored.slice(9), "base64")
+			);
+		} catch (error) {
+			// Encrypted on another device or with another keychain
+			console.error(`Could not decrypt the ${name} API key:`, error);
+			return "";
+		}
+	}
+
+	/**
+	 * Moves keys saved in the settings fields of earlier versions into the
+	 * store, and removes those fields from `settings` once their key is
+	 * safe. Returns true when any were moved, so the settings can be saved
+	 * without them.
+	 */
+	migrate(settings: object): boolean {
+		const record = settings as Record<string, unknown>;
+		let moved = false;
+		for (const field of Object.keys(LEGACY_FIELDS)) {
+			if (!(field in record)) continue;
+			const value = record[field];
+			const name = LEGACY_FIELDS[field];
+			if (typeof value === "string" && value && !this.getStored(name)) {
+				try {
+					this.set(name, value);
+				} catch (error) {
+					// Keep the old field, to try again next time
+					console.error(`Could not move the ${name} API key:`, error);
+					continue;
+				}
+			}
+			delete record[field];
+			moved = true;
+		}
+		return moved;
+	}
+}
@@ -0,0 +1,26 @@
+import { App, FuzzySuggestModal, HeadingCache } from "obsidian";
+
+/** Lists a note's headings to jump to one while listening */
+export class SectionSuggestModal extends FuzzySuggestModal<HeadingCache> {
+	constructor(
+		app: App,
+		private headings: HeadingCache[],
+		private onChoose: (heading: HeadingCache) => void
+	) {
+		super(app);
+		this.setPlaceholder("Jump to section");
+	}
+
+	getItems(): HeadingCache[] {
+		return this.headings;
+	}
+
+	getItemText(heading: HeadingCache): string {
+		// Indent by level, so the list reads like the note's outline
+		return `${"  ".repeat(heading.level - 1)}${heading.heading}`;
+	}
+
+	onChooseItem(heading: HeadingCache) {
+		this.onChoose(heading);
+	}
+}
@@ -0,0 +1,113 @@
+import { groupSentences, sentenceAt, splitSentences } from "./sentences";
+
+/** The text of each sentence, to keep expectations readable */
+function split(text: string, locale?: string): string[] {
+	return splitSentences(text, locale).map((sentence) =>
+		text.substr(sentence.start, sentence.length)
+	);
+}
+
+function group(text: string, maxLength: number): string[] {
+	return groupSentences(text, maxLength).map((sentence) =>
+		text.substr(sentence.start, sentence.length)
+	);
+}
+
+describe("splitSentences", () => {
+	test("splits after full stops, questions and exclamations", () => {
+		expect(split("One. Two? Three! Four")).toEqual([
+			"One.",
+			"Two?",
+			"Three!",
+			"Four",
+		]);
+	});
+
+	test("leaves out the whitespace around sentences", () => {
+		expect(splitSentences("  One.   Two.  ")).toEqual([
+			{ start: 2, length: 4 },
+			{ start: 9, length: 4 },
+		]);
+	});
+
+	test("does not end a sentence at an abbreviation or initial", () => {
+		expect(split("Dr. Smith met J. Doe at 5 p.m. today. He left.")).toEqual(
+			["Dr. Smith met J. Doe at 5 p.m. today.", "He left."]
+		);
+		expect(split("They moved to the U.S. Then they wrote.")).toEqual([
+			"They moved to the U.S. Then they wrote.",
+		]);
+	});
+
+	test("keeps decimals and quoted questions inside the sentence", () => {
+		expect(split("It costs 3.50 now. Fine.")).toEqual([
+			"It costs 3.50 now.",
+			"Fine.",
+		]);
+		expect(split('"Really?" she asked. Yes.')).toEqual([
+			'"Really?" she asked.',
+			"Yes.",
+		]);
+	});
+
+	test("accepts unknown locale tags", () => {
+		expect(split("One. Two.", "not a locale")).toEqual(["One.", "Two."]);
+	});
+
+	test("finds no sentences in blank text", () => {
+		expect(splitSentences("   ")).toEqual([]);
+	});
+});
+
+describe("sentenceAt", () => {
+	const sentences = splitSentences("One. Two. Three.");
+
+	test("finds the sentence holding an offset", () => {
+		expect(sentenceAt(sentences, 6)).toEqual({ start: 5, length: 4 });
+	});
+
+	test("falls back to the last sentence before the offset", () => {
+		expect(sentenceAt(sentences, 4)).toEqual({ start: 0, length: 4 });
+		expect(sentenceAt(sentences, 100)).toEqual({ start: 10, length: 6 });
+	});
+
+	test("finds nothing before the first sentence", () => {
+		expect(sentenceAt([{ start: 3, length: 2 }], 1)).toBeNull();
+	});
+});
+
+describe("groupSentences", () => {
+	test("packs whole sentences up to the length limit", () => {
+		expect(group("One. Two. Three. Four.", 10)).toEqual([
+			"One. Two.",
+			"Three.",
+			"Four.",
+		]);
+	});
+
+	test("breaks a long sentence after a clause first", () => {
+		expect(group("First part, second part, third part.", 24)).toEqual([
+			"First part, second part,",
+			"third part.",
+		]);
+	});
+
+	test("breaks between words when no clause fits", () => {
+		expect(group("alpha beta gamma delta", 11)).toEqual([
+			"alpha beta",
+			"gamma delta",
+		]);
+	});
+
+	test("cuts words longer than the limit", () => {
+		expect(group("abcdefghij", 4)).toEqual(["abcd", "efgh", "ij"]);
+	});
+
+	test("never exceeds the limit", () => {
+		const text =
+			"Lorem ipsum dolor sit amet, consectetur adipiscing elit. Sed do eiusmod tempor incididunt; ut labore et dolore magna aliqua.";
+		for (const span of groupSentences(text, 30)) {
+			expect(span.length).toBeLessThanOrEqual(30);
+		}
+	});
+});
@@ -0,0 +1,249 @@
+/** A sentence of a paragraph, without the whitespace after it */
+export interface Sentence {
+	start: number;
+	length: number;
+}
+
+// Not in the TypeScript lib this plugin builds against, but in Electron
+interface Segmenter {
+	segment(text: string): Iterable<{ segment: string; index: number }>;
+}
+type SegmenterConstructor = new (
+	locale: string | undefined,
+	options: { granularity: "sentence" }
+) => Segmenter;
+
+const IntlSegmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor })
+	.Segmenter;
+
+/** Words that end in a full stop without ending the sentence */
+const ABBREVIATIONS = new Set([
+	"mr",
+	"mrs",
+	"ms",
+	"dr",
+	"prof",
+	"sr",
+	"jr",
+	"st",
+	"vs",
+	"etc",
+	"e.g",
+	"i.e",
+	"cf",
+	"approx",
+	"fig",
+	"no",
+	"vol",
+	"ch",
+	"p",
+	"pp",
+	"ca",
+	"inc",
+	"ltd",
+	"co",
+	"jan",
+	"feb",
+	"mar",
+	"apr",
+	"jun",
+	"jul",
+	"aug",
+	"sep",
+	"sept",
+	"oct",
+	"nov",
+	"dec",
+]);
+
+const segmenters = new Map<string, Segmenter>();
+
+function getSegmenter(locale: string | undefined): Segmenter | null {
+	if (!IntlSegmenter) return null;
+	const key = locale ?? "";
+	let segmenter = segmenters.get(key);
+	if (!segmenter) {
+		try {
+			segmenter = new IntlSegmenter(locale, { granularity: "sentence" });
+		} catch (error) {
+			// Unknown locale tags throw; fall back to the default locale
+			segmenter = new IntlSegmenter(undefined, {
+				granularity: "sentence",
+			});
+		}
+		segmenters.set(key, segmenter);
+	}
+	return segmenter;
+}
+
+/**
+ * Sentence boundaries without Intl.Segmenter: after ., ! ?, or an
+ * ellipsis, and any closing quotes, when the next word starts with a
+ * capital, a digit or an opening quote. Decimals never match, as no
+ * space follows the point.
+ */
+function findBoundaries(text: string): number[] {
+	const boundaries: number[] = [];
+	const pattern = /[.!?…]+["'”’)\]]*\s+(?=["'“‘([]?[\p{Lu}\d])/gu;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text))) {
+		boundaries.push(match.index + match[0].length);
+	}
+	return boundaries;
+}
+
+/** True when `text` ends with an abbreviation or an initial, like "J." */
+function endsWithAbbreviation(text: string): boolean {
+	const match = text.match(/(?:^|[\s("'“‘])([\p{L}.]+)\.["'”’)\]]*\s*$/u);
+	if (!match) return false;
+	const word = match[1];
+	return (
+		ABBREVIATIONS.has(word.toLowerCase()) ||
+		/^\p{Lu}$/u.test(word) ||
+		// Dotted abbreviations such as "U.S."
+		/^(?:\p{L}\.)+\p{L}$/u.test(word)
+	);
+}
+
+/**
+ * Splits a paragraph into sentences, using the platform's sentence rules
+ * for `locale` where available. Abbreviations, initials, decimals, quotes
+ * and ellipses inside a sentence do not end it.
+ */
+export function splitSentences(text: string, locale?: string): Sentence[] {
+	let boundaries: number[];
+	const segmenter = getSegmenter(locale);
+	if (segmenter) {
+		boundaries = [];
+		for (const { index } of segmenter.segment(text)) {
+			if (index > 0) boundaries.push(index);
+		}
+	} else {
+		boundaries = findBoundaries(text);
+	}
+	boundaries.push(text.length);
+
+	const sentences: Sentence[] = [];
+	let start = 0;
+	for (const end of boundaries) {
+		const piece = text.slice(start, end);
+		if (
+			end < text.length &&
+			(endsWithAbbreviation(piece) ||
+				// '"Really?" she asked.' goes on after the question
+				/^\s*\p{Ll}/u.test(text.slice(end)))
+		) {
+			continue;
+		}
+
+		const trimmed = piece.replace(/\s+$/, "");
+		const leading = trimmed.length - trimmed.replace(/^\s+/, "").length;
+		if (trimmed.length > leading) {
+			sentences.push({
+				start: start + leading,
+				length: trimmed.length - leading,
+			});
+		}
+		start = end;
+	}
+	return sentences;
+}
+
+/** The sentence holding offset `offset`, or the last one before it */
+export function sentenceAt(
+	sentences: Sentence[],
+	offset: number
+): Sentence | null {
+	let found: Sentence | null = null;
+	for (const sentence of sentences) {
+		if (sentence.start > offset) break;
+		found = sentence;
+	}
+	return found;
+}
+
+/**
+ * Where a sentence too long to send at once may be broken: after a clause,
+ * then between words. Anything still too long is cut where it has to be.
+ */
+const BREAKS = [/[,;:–—)]["'”’]*\s+/g, /\s+/g];
+
+/** Merges consecutive spans into runs of at most `maxLength` characters */
+function pack(spans: Sentence[], maxLength: number): Sentence[] {
+	const groups: Sentence[] = [];
+	for (const span of spans) {
+		const last = groups[groups.length - 1];
+		if (last && span.start + span.length - last.start <= maxLength) {
+			last.length = span.start + span.length - last.start;
+		} else {
+			groups.push({ ...span });
+		}
+	}
+	return groups;
+}
+
+/** Breaks a span longer than `maxLength` into pieces that fit */
+function breakSpan(
+	text: string,
+	span: Sentence,
+	maxLength: number,
+	level = 0
+): Sentence[] {
+	if (span.length <= maxLength) return [span];
+
+	const pattern = BREAKS[level];
+	if (!pattern) {
+		const pieces: Sentence[] = [];
+		for (let i = 0; i < span.length; i += maxLength) {
+			pieces.push({
+				start: span.start + i,
+				length: Math.min(maxLength, span.length - i),
+			});
+		}
+		return pieces;
+	}
+
+	const value = text.substr(span.start, span.length);
+	const pieces: Sentence[] = [];
+	let start = 0;
+	let match: RegExpExecArray | null;
+	pattern.lastIndex = 0;
+	while ((match = pattern.exec(value))) {
+		// Pieces keep their punctuation but not the space after it
+		const end = match.index + match[0].replace(/\s+$/, "").length;
+		if (end > start) {
+			pieces.push({ start: span.start + start, length: end - start });
+		}
+		start = match.index + match[0].length;
+	}
+	if (start < value.length) {
+		pieces.push({
+			start: span.start + start,
+			length: value.length - start,
+		});
+	}
+
+	let broken: Sentence[] = [];
+	for (const piece of pieces) {
+		broken = broken.concat(breakSpan(text, piece, maxLength, level + 1));
+	}
+	return pack(broken, maxLength);
+}
+
+/**
+ * Groups consecutive sentences into runs of at most `maxLength`
+ * characters, e.g. to stay within what a voice service accepts in one
+ * request. Sentences longer than that are broken at clause boundaries,
+ * and failing that between words.
+ */
+export function groupSentences(
+	text: string,
+	maxLength: number,
+	locale?: string
+): Sentence[] {
+	let spans: Sentence[] = [];
+	for (const sentence of splitSentences(text, locale)) {
+		spans = spans.concat(breakSpan(text, sentence, maxLength));
+	}
+	return pack(spans, maxLength);
+}
@@ -0,0 +1,120 @@
+import { LexiconEntry } from "./lexicon";
+import { SpeechRules } from "./preprocess";
+import { AudioFormat } from "./providers/types";
+
+/** Reads text in `language` with `voice` of the `service` provider */
+export interface LanguageVoice {
+	/** BCP 47 tag; "pt" also covers "pt-BR" unless that has its own */
+	language: string;
+	service: string;
+	voice: string;
+}
+
+export interface TextToSpeechSettings extends SpeechRules {
+	/** Id of a provider registered with the plugin's ProviderRegistry */
+	voiceService: string;
+	/** Services to continue with, in order, when `voiceService` fails */
+	fallbackServices: string[];
+	playbackVoice: string;
+	playbackSpeed: number;
+	/** Guess the language of each note and paragraph that does not say */
+	detectLanguage: boolean;
+	languageVoices: LanguageVoice[];
+	/** Pronunciations kept in settings */
+	lexicon: LexiconEntry[];
+	/** Path of a note with more pronunciations, see parseLexiconNote */
+	lexiconNote: string;
+	/** Paragraphs synthesized ahead of the one playing (audio voices) */
+	prefetchCount: number;
+	/** Maximum number of synthesis requests running at once */
+	prefetchConcurrency: number;
+	audioCacheEnabled: boolean;
+	audioCacheLimitMb: number;
+	/** Ask before reading or exporting more characters than this; 0 never */
+	confirmCharacters: number;
+	/** US dollars a month across services; 0 for no cap */
+	monthlySpendingCap: number;
+	/** Stop, or read on with the system voice, once the cap is reached */
+	spendingCapAction: "block" | "system";
+	/** Read each note's title before it when reading a queue */
+	queueAnnounceTitles: boolean;
+	exportFormat: AudioFormat;
+	/** How an exported file is linked from its note */
+	exportLink: "none" | "embed" | "frontmatter";
+	pitch: number;
+	volume: number;
+	highlightEnabled: boolean;
+	highlightWord: boolean;
+	wordColor: string;
+	highlightSentence: boolean;
+	sentenceColor: string;
+	/** Eleven Labs model id, or "auto" to pick one by language */
+	elevenLabsModel: string;
+	openAIModel: string;
+	/** How to speak, for models that take instructions */
+	openAIInstructions: string;
+	customTtsBaseUrl: string;
+	customTtsModel: string;
+	/** Extra request headers, one `Name: value` per line */
+	customTtsHeaders: string;
+	customTtsResponseFormat: "mp3" | "wav" | "opus" | "aac" | "flac";
+	piperBinaryPath: string;
+	/** Folder holding `.onnx` voice models and their `.onnx.json` configs */
+	piperModelDirectory: string;
+	piperSpeakerId: number;
+	piperLengthScale: number;
+	/** API keys, by SecretName, on devices without a keychain to use */
+	apiKeys: Record<string, string>;
+	highlightStyle: "background" | "underline";
+	highlightAnimation: boolean;
+	/** Scroll the note along with the reading until the user scrolls away */
+	followReading: boolean;
+}
+
+export const DEFAULT_SETTINGS: TextToSpeechSettings = {
+	voiceService: "system",
+	fallbackServices: [],
+	playbackVoice: "default",
+	playbackSpeed: 1.0,
+	detectLanguage: false,
+	languageVoices: [],
+	lexicon: [],
+	lexiconNote: "",
+	prefetchCount: 2,
+	prefetchConcurrency: 2,
+	audioCacheEnabled: true,
+	audioCacheLimitMb: 200,
+	confirmCharacters: 10000,
+	monthlySpendingCap: 0,
+	spendingCapAction: "block",
+	queueAnnounceTitles: true,
+	exportFormat: "mp3",
+	exportLink: "none",
+	pitch: 1.0,
+	volume: 1.0,
+	highlightEnabled: false,
+	highlightWord: false,
+	wordColor: "#1f26ea",
+	highlightSentence: false,
+	sentenceColor: "#f5c400",
+	elevenLabsModel: "auto",
+	openAIModel: "tts-1",
+	openAIInstructions: "",
+	customTtsBaseUrl: "http://localhost:8880/v1",
+	customTtsModel: "tts-1",
+	customTtsHeaders: "",
+	customTtsResponseFormat: "mp3",
+	piperBinaryPath: "piper",
+	piperModelDirectory: "",
+	piperSpeakerId: 0,
+	piperLengthScale: 1.0,
+	apiKeys: {},
+	highlightStyle: "underline",
+	highlightAnimation: true,
+	followReading: true,
+	codeBlockMode: "announce",
+	readLinkUrls: false,
+	readImageAltText: false,
+	readTags: false,
+	listItemPauses: true,
+};
@@ -0,0 +1,25 @@
+import { App, FuzzySuggestModal } from "obsidian";
+
+/** Picks one of the vault's tags */
+export class TagSuggestModal extends FuzzySuggestModal<string> {
+	constructor(
+		app: App,
+		private tags: string[],
+		private onChoose: (tag: string) => void
+	) {
+		super(app);
+		this.setPlaceholder("Read all notes with tag...");
+	}
+
+	getItems(): string[] {
+		return this.tags;
+	}
+
+	getItemText(tag: string): string {
+		return tag;
+	}
+
+	onChooseItem(tag: string) {
+		this.onChoose(tag);
+	}
+}
@@ -0,0 +1,140 @@
+import { DataAdapter } from "obsidian";
+import { formatCost, UsageLedger } from "./usage-ledger";
+
+const PATH = "plugins/note-reader/usage.json";
+
+/** The vault's files, by path */
+let files: Record<string, string>;
+
+function createAdapter(): DataAdapter {
+	return {
+		exists: async (path: string) => path in files,
+		read: async (path: string) => files[path],
+		write: async (path: string, data: string) => {
+			files[path] = data;
+		},
+	} as unknown as DataAdapter;
+}
+
+function usage(characters: number, cost = characters / 1000) {
+	return { characters, cost };
+}
+
+beforeEach(() => {
+	files = {};
+	jest.useFakeTimers({ now: new Date(2024, 4, 17, 12) });
+});
+
+afterEach(() => {
+	jest.useRealTimers();
+	jest.restoreAllMocks();
+});
+
+describe("UsageLedger", () => {
+	test("records usage by service, today and this month", async () => {
+		const ledger = new UsageLedger(createAdapter(), PATH);
+		await ledger.record("openai", usage(1000));
+		jest.setSystemTime(new Date(2024, 4, 18, 9));
+		await ledger.record("openai", usage(500));
+		await ledger.record("elevenlabs", usage(200));
+
+		expect(await ledger.getSummary()).toEqual([
+			{ provider: "openai", today: usage(500), month: usage(1500) },
+			{ provider: "elevenlabs", today: usage(200), month: usage(200) },
+		]);
+		expect(await ledger.getMonthTotal()).toEqual(usage(1700));
+	});
+
+	test("starts each month from nothing", async () => {
+		const ledger = new UsageLedger(createAdapter(), PATH);
+		await ledger.record("openai", usage(1000));
+		jest.setSystemTime(new Date(2024, 5, 1, 0, 5));
+
+		expect(await ledger.getSummary()).toEqual([]);
+		expect(await ledger.getMonthTotal()).toEqual(usage(0));
+	});
+
+	test("refuses usage that would go over the cap", async () => {
+		const ledger = new UsageLedger(createAdapter(), PATH);
+		await ledger.reserve(usage(3000, 3), 0);
+		await ledger.record("openai", usage(3000, 3));
+
+		expect(await ledger.reserve(usage(1000, 1), 5)).toBe(true);
+		expect(await ledger.reserve(usage(2000, 2), 5)).toBe(false);
+		expect(await ledger.reserve(usage(2000, 2), 0)).toBe(true);
+	});
+
+	test("counts reserved usage towards the cap until released", async () => {
+		const ledger = new UsageLedger(createAdapter(), PATH);
+		const request = usage(1000, 1);
+
+		expect(await ledger.reserve(request, 1.5)).toBe(true);
+		expect(await ledger.reserve(request, 1.5)).toBe(false);
+		ledger.release(request);
+		expect(await ledger.reserve(request, 1.5)).toBe(true);
+	});
+
+	test("moves reserved usage to the month once recorded", async () => {
+		const ledger = new UsageLedger(createAdapter(), PATH);
+		const request = usage(1000, 1);
+		await ledger.reserve(request, 1.5);
+		await ledger.record("openai", request);
+
+		expect(await ledger.getMonthTotal()).toEqual(request);
+		expect(await ledger.reserve(usage(400, 0.4), 1.5)).toBe(true);
+		expect(await ledger.reserve(usage(200, 0.2), 1.5)).toBe(false);
+	});
+
+	test("saves to and loads from the vault", async () => {
+		const ledger = new UsageLedger(createAdapter(), PATH);
+		await ledger.record("openai", usage(1000));
+		expect(files[PATH]).toBeUndefined();
+
+		// Saves are batched
+		jest.advanceTimersByTime(2000);
+		await Promise.resolve();
+		expect(JSON.parse(files[PATH])).toEqual({
+			openai: { "2024-05-17": usage(1000) },
+		});
+
+		const reloaded = new UsageLedger(createAdapter(), PATH);
+		expect(await reloaded.getMonthTotal()).toEqual(usage(1000));
+	});
+
+	test("forgets days older than about a year", async () => {
+		const ledger = new UsageLedger(createAdapter(), PATH);
+		await ledger.record("openai", usage(1000));
+		jest.setSystemTime(new Date(2025, 6, 1, 12));
+		await ledger.record("openai", usage(10));
+		await ledger.save();
+
+		expect(Object.keys(JSON.parse(files[PATH]).openai)).toEqual([
+			"2025-07-01",
+		]);
+	});
+
+	test("starts over from an unreadable file", async () => {
+		files[PATH] = "not json";
+		jest.spyOn(console, "error").mockImplementation(() => undefined);
+		const ledger = new UsageLedger(createAdapter(), PATH);
+
+		expect(await ledger.getSummary()).toEqual([]);
+	});
+
+	test("clears everything", async () => {
+		const ledger = new UsageLedger(createAdapter(), PATH);
+		await ledger.record("openai", usage(1000));
+		await ledger.clear();
+
+		expect(await ledger.getSummary()).toEqual([]);
+		expect(JSON.parse(files[PATH])).toEqual({});
+	});
+});
+
+describe("formatCost", () => {
+	test("rounds to cents, but never down to nothing", () => {
+		expect(formatCost(0.284)).toBe("$0.28");
+		expect(formatCost(0)).toBe("$0.00");
+		expect(formatCost(0.001)).toBe("<$0.01");
+	});
+});
@@ -0,0 +1,162 @@
+import { DataAdapter, debounce, normalizePath } from "obsidian";
+
+/** Characters sent to a service and what they are estimated to cost */
+export interface Usage {
+	characters: number;
+	/** US dollars */
+	cost: number;
+}
+
+export interface ProviderUsage {
+	provider: string;
+	today: Usage;
+	month: Usage;
+}
+
+/** Days are kept this long, so last year's months can still be looked up */
+const KEEP_DAYS = 400;
+
+/** "2024-05-17", in local time */
+function dayKey(date: Date): string {
+	const pad = (n: number) => ("0" + n).slice(-2);
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+		date.getDate()
+	)}`;
+}
+
+function addUsage(total: Usage, usage: Usage): Usage {
+	return {
+		characters: total.characters + usage.characters,
+		cost: total.cost + usage.cost,
+	};
+}
+
+const NO_USAGE: Usage = { characters: 0, cost: 0 };
+
+/** "$0.28", or "<$0.01" for amounts that round to nothing */
+export function formatCost(cost: number): string {
+	if (cost > 0 && cost < 0.005) return "<$0.01";
+	return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Characters sent to each voice service per day, kept in a JSON file in
+ * the plugin folder. Only requests that reached the service are recorded;
+ * clips replayed from the audio cache cost nothing.
+ */
+export class UsageLedger {
+	/** Provider id, then day, e.g. "2024-05-17" */
+	private days: Record<string, Record<string, Usage>> | null = null;
+	/** Usage of requests sent but not recorded yet */
+	private pending: Usage = NO_USAGE;
+	private requestSave = debounce(
+		() =>
+			this.save().catch((error) =>
+				console.error("Error saving usage ledger:", error)
+			),
+		2000,
+		true
+	);
+
+	constructor(private adapter: DataAdapter, private path: string) {}
+
+	private async load(): Promise<Record<string, Record<string, Usage>>> {
+		if (this.days) return this.days;
+
+		let days: Record<string, Record<string, Usage>> = {};
+		try {
+			if (await this.adapter.exists(this.path)) {
+				days = JSON.parse(await this.adapter.read(this.path));
+			}
+		} catch (error) {
+			console.error("Error reading usage ledger:", error);
+		}
+		this.days = days;
+		return days;
+	}
+
+	/** Writes pending changes now, e.g. when the plugin unloads */
+	async save() {
+		if (!this.days) return;
+		await this.adapter.write(
+			normalizePath(this.path),
+			JSON.stringify(this.days)
+		);
+	}
+
+	/**
+	 * Sets `usage` aside for a request about to be sent, unless it would
+	 * take this month over `cap` US dollars (0 for no cap). Requests that
+	 * are still running count towards the cap, so ones sent side by side
+	 * cannot all slip under it. Returns false when the cap is in the way;
+	 * otherwise the usage must later be recorded or released.
+	 */
+	async reserve(usage: Usage, cap: number): Promise<boolean> {
+		const month = await this.getMonthTotal();
+		if (cap > 0 && month.cost + this.pending.cost + usage.cost > cap) {
+			return false;
+		}
+		this.pending = addUsage(this.pending, usage);
+		return true;
+	}
+
+	/** Gives back usage reserved for a request that failed */
+	release(usage: Usage) {
+		this.pending = addUsage(this.pending, {
+			characters: -usage.characters,
+			cost: -usage.cost,
+		});
+	}
+
+	/** Records reserved usage once its request went through */
+	async record(provider: string, usage: Usage) {
+		const days = await this.load();
+		const today = dayKey(new Date());
+		const ledger = (days[provider] = days[provider] ?? {});
+		ledger[today] = addUsage(ledger[today] ?? NO_USAGE, usage);
+		this.release(usage);
+
+		const oldest = dayKey(new Date(Date.now() - KEEP_DAYS * 86400000));
+		for (const day of Object.keys(ledger)) {
+			if (day < oldest) delete ledger[day];
+		}
+		this.requestSave();
+	}
+
+	/** Usage of every service this calendar month */
+	async getMonthTotal(): Promise<Usage> {
+		const summary = await this.getSummary();
+		return summary.reduce(
+			(total, usage) => addUsage(total, usage.month),
+			NO_USAGE
+		);
+	}
+
+	/** Today's and this month's usage of each service that has any */
+	async getSummary(): Promise<ProviderUsage[]> {
+		const days = await this.load();
+		const today = dayKey(new Date());
+		const month = today.slice(0, 8);
+		return Object.keys(days)
+			.map((provider) => {
+				const ledger = days[provider];
+				const thisMonth = Object.keys(ledger).filter((day) =>
+					day.startsWith(month)
+				);
+				return {
+					provider,
+					today: ledger[today] ?? NO_USAGE,
+					month: thisMonth.reduce(
+						(total, day) => addUsage(total, ledger[day]),
+						NO_USAGE
+					),
+				};
+			})
+			.filter((usage) => usage.month.characters > 0);
+	}
+
+	async clear() {
+		this.days = {};
+		await this.save();
+	}
+}